@@ -1,12 +1,22 @@
 import { Card } from "@/components/ui/card";
-import type { ClipInfo } from "@shared/schema";
-import { useRef, useEffect } from "react";
+import PosterPicker from "@/components/PosterPicker";
+import ThumbnailPreview from "@/components/ThumbnailPreview";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cancelClipEdit, useClipEdit } from "@/hooks/use-clip-edit";
+import { useHlsPlayback } from "@/hooks/use-hls-playback";
+import { usePresets } from "@/hooks/use-presets";
+import { thumbnailAt } from "@/lib/utils";
+import { formatTimestamp, type TimestampMode } from "@shared/format";
+import type { ClipInfo, EncodingPresetId } from "@shared/schema";
+import { useRef, useState } from "react";
 
 interface ClipsPreviewCardProps {
   clips: ClipInfo[];
   selectedClipIndex: number;
   onSelectClip: (index: number) => void;
-  onDownloadClip: (index: number) => void;
+  onDownloadClip: (index: number, preset?: EncodingPresetId) => void;
+  onClipsChange: (clips: ClipInfo[]) => void;
 }
 
 export default function ClipsPreviewCard({
@@ -14,20 +24,51 @@ export default function ClipsPreviewCard({
   selectedClipIndex,
   onSelectClip,
   onDownloadClip,
+  onClipsChange,
 }: ClipsPreviewCardProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [timestampMode, setTimestampMode] = useState<TimestampMode>("clock");
+  const [downloadFormat, setDownloadFormat] = useState<EncodingPresetId | "original">("original");
+  const presets = usePresets();
+  // Clip card under the pointer and how far into that clip the pointer is, in ms
+  const [scrub, setScrub] = useState<{ index: number; time: number } | null>(null);
   
-  // Reset video position when switching clips
-  useEffect(() => {
-    if (videoRef.current && clips.length > 0) {
-      videoRef.current.load();
-    }
-  }, [selectedClipIndex, clips]);
+  const edit = useClipEdit(onClipsChange);
+  
+  const selectedClip = clips[selectedClipIndex];
+  const isLastClip = selectedClipIndex === clips.length - 1;
+  const frameDuration = selectedClip?.frameRate ? 1000 / selectedClip.frameRate : null;
+  
+  // The player shows time within the clip, which starts at the clip's start in the source
+  const splitAtPlayhead = () => {
+    const position = videoRef.current?.currentTime ?? 0;
+    edit.mutate({ kind: "split", clip: selectedClip, time: Math.round(selectedClip.startTime + position * 1000) });
+  };
+  
+  const nudgeEnd = (frames: number) => {
+    if (!frameDuration) return;
+    edit.mutate({ kind: "boundary", clip: selectedClip, time: Math.round(selectedClip.endTime + frames * frameDuration) });
+  };
+  
+  // Changing the source also resets the position when switching clips
+  useHlsPlayback(videoRef, clips[selectedClipIndex]?.hlsUrl, clips[selectedClipIndex]?.url ?? "");
   
   return (
     <Card className="overflow-hidden h-full flex flex-col">
-      <div className="p-6 border-b border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
         <h2 className="text-xl font-semibold text-gray-800">Extracted Clips</h2>
+        {clips.length > 0 && (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={timestampMode}
+            onValueChange={(value) => value && setTimestampMode(value as TimestampMode)}
+            aria-label="Timestamp display"
+          >
+            <ToggleGroupItem value="clock">Clock</ToggleGroupItem>
+            <ToggleGroupItem value="timecode">Timecode</ToggleGroupItem>
+          </ToggleGroup>
+        )}
       </div>
       
       {/* No clips state */}
@@ -54,7 +95,6 @@ export default function ClipsPreviewCard({
               controls
               preload="auto"
             >
-              <source src={clips[selectedClipIndex].url} type="video/mp4" />
               Your browser doesn't support HTML5 video.
             </video>
             <div className="absolute top-4 right-4 bg-gray-900 bg-opacity-75 rounded-lg py-1 px-2.5 text-white text-sm font-medium">
@@ -69,19 +109,109 @@ export default function ClipsPreviewCard({
                 <span>Scene {selectedClipIndex + 1}</span>
               </h3>
               <div className="flex items-center space-x-2">
-                <span className="text-sm text-gray-500">{clips[selectedClipIndex].timestamp}</span>
+                <span className="text-sm text-gray-500 font-mono">
+                  {/* The server counts timecode from the frames the clip was cut on */}
+                  {timestampMode === "timecode" && selectedClip.startTimecode && selectedClip.endTimecode
+                    ? `${selectedClip.startTimecode} - ${selectedClip.endTimecode}`
+                    : formatTimestamp(selectedClip.startTime, selectedClip.endTime)}
+                </span>
               </div>
             </div>
+            {timestampMode === "timecode" && clips[selectedClipIndex].startFrame !== undefined && clips[selectedClipIndex].endFrame !== undefined && (
+              <p className="text-xs text-gray-500">
+                Frames {clips[selectedClipIndex].startFrame}–{clips[selectedClipIndex].endFrame! - 1}
+                {clips[selectedClipIndex].frameRate && ` at ${clips[selectedClipIndex].frameRate} fps`}
+              </p>
+            )}
+            {clips[selectedClipIndex].detectedStartTime !== undefined && clips[selectedClipIndex].detectedEndTime !== undefined && (
+              <p className="text-xs text-gray-500">
+                Trimmed from {formatTimestamp(
+                  clips[selectedClipIndex].detectedStartTime!,
+                  clips[selectedClipIndex].detectedEndTime!,
+                  timestampMode,
+                  clips[selectedClipIndex].frameRate
+                )}
+              </p>
+            )}
+            <Select
+              value={downloadFormat}
+              onValueChange={(value) => setDownloadFormat(value as EncodingPresetId | "original")}
+            >
+              <SelectTrigger className="mt-2" aria-label="Download format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">As extracted</SelectItem>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <button 
               type="button" 
               className="w-full mt-2 px-4 py-2 bg-accent text-white rounded-lg hover:bg-blue-700 transition font-medium flex items-center justify-center"
-              onClick={() => onDownloadClip(selectedClipIndex)}
+              onClick={() => onDownloadClip(selectedClipIndex, downloadFormat === "original" ? undefined : downloadFormat)}
             >
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
               Download This Clip
             </button>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <button
+                type="button"
+                className="px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                onClick={splitAtPlayhead}
+                disabled={edit.isPending}
+              >
+                Split at playhead
+              </button>
+              <button
+                type="button"
+                className="px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                onClick={() => edit.mutate({ kind: "merge-next", clip: selectedClip })}
+                disabled={edit.isPending || isLastClip}
+              >
+                Merge with next
+              </button>
+              <button
+                type="button"
+                className="px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                onClick={() => nudgeEnd(-1)}
+                disabled={edit.isPending || isLastClip || !frameDuration}
+                title="Move the cut to the next clip one frame earlier"
+              >
+                End −1 frame
+              </button>
+              <button
+                type="button"
+                className="px-3 py-1.5 border border-gray-300 text-sm text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                onClick={() => nudgeEnd(1)}
+                disabled={edit.isPending || isLastClip || !frameDuration}
+                title="Move the cut to the next clip one frame later"
+              >
+                End +1 frame
+              </button>
+            </div>
+            {edit.isPending && (
+              <p className="text-xs text-gray-500 mt-2">
+                Re-extracting clips...{" "}
+                <button
+                  type="button"
+                  className="font-medium text-primary hover:underline"
+                  onClick={() => cancelClipEdit(selectedClip.videoId).catch(() => {})}
+                >
+                  Cancel
+                </button>
+              </p>
+            )}
+            {edit.isError && (
+              <p className="text-xs text-red-700 mt-2">{edit.error.message}</p>
+            )}
+            <PosterPicker
+              clip={selectedClip}
+              onPosterChange={(updated) => onClipsChange(clips.map((clip) => (clip.id === updated.id ? updated : clip)))}
+            />
           </div>
           
           {/* Clip thumbnails */}
@@ -94,12 +224,23 @@ export default function ClipsPreviewCard({
                     selectedClipIndex === index ? 'border-primary' : 'border-transparent'
                   }`}
                   onClick={() => onSelectClip(index)}
+                  onMouseMove={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+                    setScrub({ index, time: fraction * clip.duration });
+                  }}
+                  onMouseLeave={() => setScrub(null)}
                 >
                   <img 
-                    src={clip.thumbnailUrl} 
+                    src={thumbnailAt(clip.thumbnailUrl, 320)} 
                     alt={`Scene ${index + 1} thumbnail`} 
                     className="w-full aspect-video object-cover" 
                   />
+                  {scrub?.index === index && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                      <ThumbnailPreview trackUrl={clip.thumbnailTrackUrl} time={scrub.time} />
+                    </div>
+                  )}
                   <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black to-transparent px-2 py-1.5">
                     <div className="flex justify-between items-center">
                       <span className="text-white text-xs font-medium">Scene {index + 1}</span>
@@ -0,0 +1,113 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { detectorLabels } from "@/components/ProcessingSettings";
+import type { DetectorComparisonRun, ProcessingOptions } from "@shared/schema";
+import { useEffect, useState } from "react";
+
+interface DetectorComparisonProps {
+  videoId: number;
+  settings: ProcessingOptions;
+  onSettingsChange: (settings: ProcessingOptions) => void;
+}
+
+// Show at most this many cut times per detector
+const MAX_LISTED_CUTS = 6;
+
+export default function DetectorComparison({
+  videoId,
+  settings,
+  onSettingsChange,
+}: DetectorComparisonProps) {
+  const [comparisonId, setComparisonId] = useState<string | null>(null);
+  const comparisonUrl = `/api/videos/${videoId}/compare-detectors`;
+
+  const start = useMutation({
+    mutationFn: async (): Promise<DetectorComparisonRun> => {
+      const response = await apiRequest('POST', comparisonUrl, {
+        threshold: settings.threshold,
+        silenceNoiseFloor: settings.silenceNoiseFloor,
+        silenceMinGap: settings.silenceMinGap,
+        startTime: settings.startTime,
+        endTime: settings.endTime,
+      });
+      return await response.json();
+    },
+    onSuccess: (run) => setComparisonId(run.id),
+  });
+
+  // The detectors run on the server; poll until they are all done
+  const { data: comparison, isError, error } = useQuery<DetectorComparisonRun>({
+    queryKey: [`${comparisonUrl}/${comparisonId}`],
+    enabled: comparisonId !== null,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 1000 : false),
+  });
+  const isRunning = start.isPending || comparison?.status === "running";
+
+  // Stop a running comparison when it is no longer on screen
+  useEffect(() => {
+    if (!comparisonId) return;
+    return () => {
+      apiRequest('DELETE', `${comparisonUrl}/${comparisonId}`).catch(() => {});
+    };
+  }, [comparisonUrl, comparisonId]);
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        className="w-full px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50"
+        onClick={() => start.mutate()}
+        disabled={isRunning}
+      >
+        {isRunning ? "Comparing Detectors..." : "Compare Detectors"}
+      </button>
+
+      {start.isError && (
+        <p className="text-sm text-red-700 mt-2">{start.error.message}</p>
+      )}
+      {isError && (
+        <p className="text-sm text-red-700 mt-2">{error.message}</p>
+      )}
+
+      {comparison && comparison.results.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {comparison.results.map((result) => (
+            <li key={result.detector} className="p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-800">{detectorLabels[result.detector]}</span>
+                <div className="flex items-center space-x-3">
+                  <span className="text-xs text-gray-500">{(result.elapsed / 1000).toFixed(1)}s</span>
+                  <button
+                    type="button"
+                    className="text-xs font-medium text-primary hover:underline disabled:text-gray-400 disabled:no-underline"
+                    onClick={() => onSettingsChange({ ...settings, detector: result.detector })}
+                    disabled={settings.detector === result.detector}
+                  >
+                    {settings.detector === result.detector ? "Selected" : "Use"}
+                  </button>
+                </div>
+              </div>
+              {result.error ? (
+                <p className="text-xs text-red-700 mt-1">{result.error}</p>
+              ) : (
+                <p className="text-xs text-gray-600 mt-1">
+                  {result.cuts.length} cuts
+                  {result.cuts.length > 0 && ": "}
+                  {result.cuts.slice(0, MAX_LISTED_CUTS).map(formatTime).join(", ")}
+                  {result.cuts.length > MAX_LISTED_CUTS && ", …"}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Format milliseconds to MM:SS.s
+function formatTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = (ms % 60000) / 1000;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toFixed(1).padStart(4, '0')}`;
+}
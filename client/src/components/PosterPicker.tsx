@@ -0,0 +1,55 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { thumbnailAt } from "@/lib/utils";
+import type { ClipInfo } from "@shared/schema";
+
+interface PosterPickerProps {
+  clip: ClipInfo;
+  onPosterChange: (clip: ClipInfo) => void;
+}
+
+// Strip of the frames scored for a clip's thumbnail, the current one highlighted
+export default function PosterPicker({ clip, onPosterChange }: PosterPickerProps) {
+  const setPoster = useMutation({
+    mutationFn: async (index: number): Promise<ClipInfo> => {
+      const response = await apiRequest("PUT", `/api/clips/${clip.id}/poster`, { index });
+      return await response.json();
+    },
+    onSuccess: onPosterChange,
+  });
+
+  // A single candidate leaves nothing to choose between
+  if (clip.posterCandidates.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-gray-500 mb-1">Thumbnail</p>
+      <div className="flex gap-1.5">
+        {clip.posterCandidates.map((candidate, index) => (
+          <button
+            key={candidate.url}
+            type="button"
+            className={`flex-1 rounded overflow-hidden border-2 transition disabled:opacity-50 ${
+              clip.posterIndex === index ? "border-primary" : "border-transparent hover:border-gray-300"
+            }`}
+            onClick={() => setPoster.mutate(index)}
+            disabled={setPoster.isPending || clip.posterIndex === index}
+            title={`Frame at ${(candidate.time / 1000).toFixed(2)}s`}
+          >
+            <img
+              src={thumbnailAt(candidate.url, 160)}
+              alt={`Thumbnail candidate ${index + 1}`}
+              className="w-full aspect-video object-cover"
+              loading="lazy"
+            />
+          </button>
+        ))}
+      </div>
+      {setPoster.isError && (
+        <p className="text-xs text-red-700 mt-1">{setPoster.error.message}</p>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,30 @@
 import { Card, CardContent } from "@/components/ui/card";
-import type { ProcessingStatus, ClipInfo } from "@shared/schema";
+import ProcessingSettings from "@/components/ProcessingSettings";
+import DetectorComparison from "@/components/DetectorComparison";
+import type { ProcessingStatus, ClipInfo, ProcessingOptions } from "@shared/schema";
 
 interface ProcessingCardProps {
+  videoId: number | null;
   processingStatus: ProcessingStatus;
   clips: ClipInfo[];
+  settings: ProcessingOptions;
+  onSettingsChange: (settings: ProcessingOptions) => void;
   onTryAgain: () => void;
+  onCancel: () => void;
   onDownloadAllClips: () => void;
 }
 
 export default function ProcessingCard({
+  videoId,
   processingStatus,
   clips,
+  settings,
+  onSettingsChange,
   onTryAgain,
+  onCancel,
   onDownloadAllClips,
 }: ProcessingCardProps) {
-  const { status, progress, stage } = processingStatus;
+  const { status, progress, stage, eta, speed } = processingStatus;
   const isProcessing = status === "processing";
   
   return (
@@ -43,6 +53,12 @@ export default function ProcessingCard({
                   style={{ width: `${progress}%` }}
                 ></div>
               </div>
+              {(eta !== undefined || speed !== undefined) && (
+                <div className="flex justify-between mt-1 text-xs text-gray-500">
+                  <span>{speed !== undefined ? `${speed.toFixed(1)}× realtime` : ""}</span>
+                  <span>{eta !== undefined ? `About ${formatEta(eta)} left` : ""}</span>
+                </div>
+              )}
             </div>
             <div className="mt-3 p-4 bg-blue-50 rounded-lg border border-blue-100">
               <div className="flex">
@@ -54,6 +70,37 @@ export default function ProcessingCard({
                 </p>
               </div>
             </div>
+            <button 
+              type="button" 
+              className="mt-3 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm font-medium"
+              onClick={onCancel}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        
+        {/* Cancelled state */}
+        {status === "cancelled" && (
+          <div>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+              <div className="flex">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-gray-500 mr-2 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                </svg>
+                <p className="text-sm text-gray-700">
+                  Processing was cancelled. Partially extracted clips have been removed.
+                </p>
+              </div>
+            </div>
+            <ProcessingSettings settings={settings} onChange={onSettingsChange} />
+            <button 
+              type="button" 
+              className="w-full px-4 py-2.5 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition font-medium"
+              onClick={onTryAgain}
+            >
+              Process Again
+            </button>
           </div>
         )}
         
@@ -80,6 +127,23 @@ export default function ProcessingCard({
               </svg>
               Download All Clips
             </button>
+            <div className="mt-4">
+              <ProcessingSettings settings={settings} onChange={onSettingsChange} />
+              <button 
+                type="button" 
+                className="w-full px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
+                onClick={onTryAgain}
+              >
+                Reprocess With These Settings
+              </button>
+              {videoId !== null && (
+                <DetectorComparison
+                  videoId={videoId}
+                  settings={settings}
+                  onSettingsChange={onSettingsChange}
+                />
+              )}
+            </div>
           </div>
         )}
         
@@ -101,6 +165,7 @@ export default function ProcessingCard({
                 </div>
               </div>
             </div>
+            <ProcessingSettings settings={settings} onChange={onSettingsChange} />
             <button 
               type="button" 
               className="w-full px-4 py-2.5 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition font-medium"
@@ -114,3 +179,12 @@ export default function ProcessingCard({
     </Card>
   );
 }
+
+// Format remaining seconds as a short estimate, e.g. "2m 05s"
+function formatEta(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { usePresets } from "@/hooks/use-presets";
+import type { EncodingPresetId, ExtractionMode, ProcessingOptions, SceneDetectorName } from "@shared/schema";
+
+interface ProcessingSettingsProps {
+  settings: ProcessingOptions;
+  onChange: (settings: ProcessingOptions) => void;
+  disabled?: boolean;
+}
+
+// Human-readable names for the scene detection strategies
+export const detectorLabels: Record<SceneDetectorName, string> = {
+  content: "Hard cuts",
+  adaptive: "Adaptive",
+  black: "Fade to black",
+  histogram: "Histogram",
+  audio: "Audio (pauses and loudness)",
+  hybrid: "Audio and picture together",
+};
+
+// Human-readable names for the clip extraction modes
+const extractionModeLabels: Record<ExtractionMode, string> = {
+  reencode: "Re-encode (frame accurate)",
+  copy: "Lossless copy (cuts on keyframes)",
+  smart: "Smart render (re-encode ends only)",
+};
+
+// Convert milliseconds to the seconds shown in the inputs
+const toSeconds = (ms: number | undefined) => (ms === undefined ? "" : String(ms / 1000));
+
+// Convert an input value in seconds to milliseconds, treating blank as unset
+const fromSeconds = (value: string) => {
+  if (value.trim() === "") return undefined;
+  const seconds = parseFloat(value);
+  return isNaN(seconds) || seconds < 0 ? undefined : Math.round(seconds * 1000);
+};
+
+export default function ProcessingSettings({
+  settings,
+  onChange,
+  disabled = false,
+}: ProcessingSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const presets = usePresets();
+
+  const update = (changes: Partial<ProcessingOptions>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mb-4 border border-gray-200 rounded-lg">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="w-full flex items-center justify-between px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+        >
+          <span>Detection Settings</span>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <div>
+          <Label htmlFor="scene-detector">Detector</Label>
+          <Select
+            value={settings.detector}
+            onValueChange={(detector) => update({ detector: detector as SceneDetectorName })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="scene-detector" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(detectorLabels) as SceneDetectorName[]).map((name) => (
+                <SelectItem key={name} value={name}>{detectorLabels[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="flex justify-between mb-2">
+            <Label htmlFor="scene-threshold">Threshold</Label>
+            <span className="text-sm text-gray-600">{settings.threshold.toFixed(2)}</span>
+          </div>
+          <Slider
+            id="scene-threshold"
+            min={0.01}
+            max={1}
+            step={0.01}
+            value={[settings.threshold]}
+            onValueChange={([threshold]) => update({ threshold })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-gray-500 mt-1">Lower values detect more subtle scene changes.</p>
+        </div>
+        {(settings.detector === "audio" || settings.detector === "hybrid") && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="silence-noise-floor">Silence below (dB)</Label>
+              <Input
+                id="silence-noise-floor"
+                type="number"
+                min={-90}
+                max={0}
+                step={1}
+                className="mt-1"
+                value={settings.silenceNoiseFloor}
+                onChange={(e) => {
+                  const level = parseFloat(e.target.value);
+                  if (!isNaN(level)) update({ silenceNoiseFloor: Math.min(0, Math.max(-90, level)) });
+                }}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="silence-min-gap">Min pause (s)</Label>
+              <Input
+                id="silence-min-gap"
+                type="number"
+                min={0.05}
+                step={0.1}
+                className="mt-1"
+                value={toSeconds(settings.silenceMinGap)}
+                onChange={(e) => update({ silenceMinGap: Math.max(50, fromSeconds(e.target.value) ?? 0) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        )}
+        <div>
+          <Label htmlFor="extraction-mode">Clip extraction</Label>
+          <Select
+            value={settings.extractionMode}
+            onValueChange={(extractionMode) => update({ extractionMode: extractionMode as ExtractionMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="extraction-mode" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(extractionModeLabels) as ExtractionMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>{extractionModeLabels[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="encoding-preset">Output format</Label>
+          <Select
+            value={settings.preset}
+            onValueChange={(preset) => update({ preset: preset as EncodingPresetId })}
+            disabled={disabled || settings.extractionMode !== "reencode"}
+          >
+            <SelectTrigger id="encoding-preset" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settings.extractionMode !== "reencode" && (
+            <p className="text-xs text-gray-500 mt-1">Copied clips keep the source format; pick another when downloading.</p>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="min-scene-length">Min scene length (s)</Label>
+            <Input
+              id="min-scene-length"
+              type="number"
+              min={0}
+              step={0.1}
+              className="mt-1"
+              value={toSeconds(settings.minSceneLength)}
+              onChange={(e) => update({ minSceneLength: fromSeconds(e.target.value) ?? 0 })}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <Label htmlFor="max-scene-length">Max scene length (s)</Label>
+            <Input
+              id="max-scene-length"
+              type="number"
+              min={0}
+              step={1}
+              placeholder="No limit"
+              className="mt-1"
+              value={toSeconds(settings.maxSceneLength)}
+              onChange={(e) => update({ maxSceneLength: fromSeconds(e.target.value) || undefined })}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <Label htmlFor="range-start">Analyse from (s)</Label>
+            <Input
+              id="range-start"
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Start"
+              className="mt-1"
+              value={toSeconds(settings.startTime)}
+              onChange={(e) => update({ startTime: fromSeconds(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <Label htmlFor="range-end">Analyse to (s)</Label>
+            <Input
+              id="range-end"
+              type="number"
+              min={0}
+              step={1}
+              placeholder="End"
+              className="mt-1"
+              value={toSeconds(settings.endTime)}
+              onChange={(e) => update({ endTime: fromSeconds(e.target.value) || undefined })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="trim-black">Trim black frames from scene ends</Label>
+            <Switch
+              id="trim-black"
+              checked={settings.trimBlack}
+              onCheckedChange={(checked) => update({ trimBlack: checked })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="trim-silence">Trim silence from scene ends</Label>
+            <Switch
+              id="trim-silence"
+              checked={settings.trimSilence}
+              onCheckedChange={(checked) => update({ trimSilence: checked })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="drop-empty-scenes">Drop scenes that are entirely black or silent</Label>
+            <Switch
+              id="drop-empty-scenes"
+              checked={settings.dropEmptyScenes}
+              onCheckedChange={(checked) => update({ dropEmptyScenes: checked })}
+              disabled={disabled || (!settings.trimBlack && !settings.trimSilence)}
+            />
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { adaptiveCuts, buildSceneRanges, contentCuts } from "@shared/scenes";
+import type { ProcessingOptions, ProcessingStatus, SceneScoreCurve } from "@shared/schema";
+
+interface SceneScoreCardProps {
+  videoId: number | null;
+  processingStatus: ProcessingStatus;
+  settings: ProcessingOptions;
+  onApply: (changes: Partial<ProcessingOptions>) => void;
+}
+
+// Enough points to show every peak without slowing the chart down
+const MAX_CHART_POINTS = 800;
+// Cut markers beyond this are not drawn
+const MAX_CUT_MARKERS = 200;
+
+const chartConfig = {
+  score: {
+    label: "Scene score",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export default function SceneScoreCard({
+  videoId,
+  processingStatus,
+  settings,
+  onApply,
+}: SceneScoreCardProps) {
+  const isCompleted = processingStatus.status === "completed";
+  const [threshold, setThreshold] = useState(settings.threshold);
+
+  // Follow the committed threshold when it changes elsewhere
+  useEffect(() => {
+    setThreshold(settings.threshold);
+  }, [settings.threshold]);
+
+  const scoresUrl = `/api/videos/${videoId}/scene-scores`;
+  const { data: curve, isError } = useQuery<SceneScoreCurve>({
+    queryKey: [scoresUrl],
+    enabled: videoId !== null && isCompleted,
+  });
+
+  // Refetch whenever a run finishes, since it may have widened the curve
+  const queryClient = useQueryClient();
+  const wasCompleted = useRef(isCompleted);
+  useEffect(() => {
+    if (isCompleted && !wasCompleted.current) {
+      queryClient.invalidateQueries({ queryKey: [scoresUrl] });
+    }
+    wasCompleted.current = isCompleted;
+  }, [queryClient, scoresUrl, isCompleted]);
+
+  const chartData = useMemo(() => (curve ? downsample(curve) : []), [curve]);
+
+  // Only the score-based detectors can be previewed; others fall back to hard cuts
+  const isAdaptive = settings.detector === "adaptive";
+  const isScoreBased = isAdaptive || settings.detector === "content";
+
+  const scenes = useMemo(() => {
+    if (!curve) return [];
+    const range = {
+      start: Math.max(settings.startTime ?? 0, curve.rangeStart),
+      end: Math.min(settings.endTime ?? curve.rangeEnd, curve.rangeEnd),
+    };
+    const cuts = (isAdaptive ? adaptiveCuts : contentCuts)(curve, range, threshold);
+    return buildSceneRanges(cuts, range.start, range.end, settings);
+  }, [curve, settings, threshold, isAdaptive]);
+
+  if (!isCompleted || videoId === null) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Scene Scores</h2>
+
+        {isError && (
+          <div className="flex items-center justify-center p-6 border border-gray-200 rounded-lg bg-gray-50">
+            <p className="text-gray-500 text-sm text-center">
+              Scene scores are recorded by the Hard cuts and Adaptive detectors.
+            </p>
+          </div>
+        )}
+
+        {curve && (
+          <div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={[curve.rangeStart / 1000, curve.rangeEnd / 1000]}
+                  tickFormatter={formatSeconds}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 1]} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, [item]) => formatSeconds(item?.payload?.time ?? 0)} />}
+                />
+                {scenes.slice(1, MAX_CUT_MARKERS + 1).map((scene) => (
+                  <ReferenceLine key={scene.startTime} x={scene.startTime / 1000} stroke="#9ca3af" strokeWidth={1} />
+                ))}
+                <ReferenceLine y={threshold} stroke="#dc2626" strokeDasharray="4 4" />
+                <Line dataKey="score" type="linear" stroke="var(--color-score)" strokeWidth={1} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="mt-4">
+              <div className="flex justify-between mb-2">
+                <Label htmlFor="preview-threshold">Threshold</Label>
+                <span className="text-sm text-gray-600">
+                  {threshold.toFixed(2)} · {scenes.length} scenes
+                </span>
+              </div>
+              <Slider
+                id="preview-threshold"
+                min={0.01}
+                max={1}
+                step={0.01}
+                value={[threshold]}
+                onValueChange={([value]) => setThreshold(value)}
+              />
+              {!isScoreBased && (
+                <p className="text-xs text-gray-500 mt-1">
+                  The preview shows hard cuts; applying switches to the Hard cuts detector.
+                </p>
+              )}
+            </div>
+
+            <button
+              type="button"
+              className="w-full mt-4 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50"
+              onClick={() => onApply({ threshold, detector: isScoreBased ? settings.detector : "content" })}
+              disabled={isScoreBased && threshold === settings.threshold}
+            >
+              Apply Threshold
+            </button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Reduce the curve to at most MAX_CHART_POINTS, keeping the peak of each bucket
+function downsample(curve: SceneScoreCurve): { time: number; score: number }[] {
+  const { times, scores } = curve;
+  const bucketSize = Math.max(1, Math.ceil(times.length / MAX_CHART_POINTS));
+  const points: { time: number; score: number }[] = [];
+
+  for (let i = 0; i < times.length; i += bucketSize) {
+    let peak = i;
+    for (let j = i + 1; j < Math.min(i + bucketSize, times.length); j++) {
+      if (scores[j] > scores[peak]) peak = j;
+    }
+    points.push({ time: times[peak] / 1000, score: scores[peak] });
+  }
+
+  return points;
+}
+
+// Format seconds to MM:SS
+function formatSeconds(seconds: number): string {
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  const remainder = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainder.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,26 @@
+import { useThumbnailTrack } from "@/hooks/use-thumbnail-track";
+
+interface ThumbnailPreviewProps {
+  trackUrl: string;
+  time: number; // in milliseconds from the start of the track
+  className?: string;
+}
+
+// The sprite sheet frame for a point in time, cropped out of the sheet
+export default function ThumbnailPreview({ trackUrl, time, className = "" }: ThumbnailPreviewProps) {
+  const cueAt = useThumbnailTrack(trackUrl);
+  const cue = cueAt(time);
+  if (!cue) return null;
+  
+  return (
+    <div
+      className={`bg-gray-900 bg-no-repeat ${className}`}
+      style={{
+        width: cue.width,
+        height: cue.height,
+        backgroundImage: `url(${cue.url})`,
+        backgroundPosition: `-${cue.x}px -${cue.y}px`,
+      }}
+    />
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState, type MouseEvent as ReactMouseEvent, type PointerEvent as ReactPointerEvent } from "react";
+import { Card } from "@/components/ui/card";
+import ThumbnailPreview from "@/components/ThumbnailPreview";
+import { useClipEdit } from "@/hooks/use-clip-edit";
+import { useHlsPlayback } from "@/hooks/use-hls-playback";
+import { thumbnailAt } from "@/lib/utils";
+import { formatDuration } from "@shared/format";
+import type { ClipInfo } from "@shared/schema";
+
+interface TimelineEditorProps {
+  videoId: number;
+  duration: number; // of the whole source, in milliseconds
+  clips: ClipInfo[];
+  selectedClipIndex: number;
+  onSelectClip: (index: number) => void;
+  onClipsChange: (clips: ClipInfo[]) => void;
+}
+
+// A boundary being dragged: the clip it ends and where it would move to
+interface BoundaryDrag {
+  index: number;
+  time: number;
+  moved: boolean;
+}
+
+// Pointer movement in pixels before a press on a boundary counts as a drag
+const DRAG_THRESHOLD = 3;
+
+export default function TimelineEditor({
+  videoId,
+  duration,
+  clips,
+  selectedClipIndex,
+  onSelectClip,
+  onClipsChange,
+}: TimelineEditorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragStartX = useRef(0);
+  const [playhead, setPlayhead] = useState(0);
+  const [drag, setDrag] = useState<BoundaryDrag | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const edit = useClipEdit(onClipsChange);
+  useHlsPlayback(videoRef, `/api/videos/${videoId}/hls/source/master.m3u8`, `/api/videos/${videoId}/stream`);
+  
+  // Jump to a scene picked elsewhere, unless the playhead is already inside it
+  useEffect(() => {
+    const video = videoRef.current;
+    const clip = clips[selectedClipIndex];
+    if (!video || !clip) return;
+    
+    const position = video.currentTime * 1000;
+    if (position < clip.startTime || position >= clip.endTime) {
+      video.currentTime = clip.startTime / 1000;
+    }
+  }, [selectedClipIndex, clips]);
+  
+  // Source time under a horizontal pointer position
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(fraction * duration);
+  };
+  
+  const sceneAt = (time: number) => {
+    const index = clips.findIndex((clip) => time >= clip.startTime && time < clip.endTime);
+    return index === -1 ? clips.length - 1 : index;
+  };
+  
+  const seek = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time / 1000;
+    }
+    setPlayhead(time);
+  };
+  
+  const handleTrackClick = (event: ReactMouseEvent) => {
+    const time = timeAt(event.clientX);
+    seek(time);
+    onSelectClip(sceneAt(time));
+  };
+  
+  // Double-clicking inside a scene splits it there
+  const handleTrackDoubleClick = (event: ReactMouseEvent) => {
+    const time = timeAt(event.clientX);
+    const clip = clips[sceneAt(time)];
+    if (clip && time > clip.startTime && time < clip.endTime) {
+      edit.mutate({ kind: "split", clip, time });
+    }
+  };
+  
+  const startDrag = (index: number, event: ReactPointerEvent) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartX.current = event.clientX;
+    setDrag({ index, time: clips[index].endTime, moved: false });
+  };
+  
+  // The boundary stays strictly inside the two scenes it separates
+  const moveDrag = (event: ReactPointerEvent) => {
+    if (!drag) return;
+    const time = Math.min(clips[drag.index + 1].endTime - 1, Math.max(clips[drag.index].startTime + 1, timeAt(event.clientX)));
+    const moved = drag.moved || Math.abs(event.clientX - dragStartX.current) > DRAG_THRESHOLD;
+    setDrag({ ...drag, time, moved });
+  };
+  
+  const endDrag = () => {
+    if (drag?.moved && drag.time !== clips[drag.index].endTime) {
+      edit.mutate({ kind: "boundary", clip: clips[drag.index], time: drag.time });
+    }
+    setDrag(null);
+  };
+  
+  const percent = (time: number) => `${(time / duration) * 100}%`;
+  
+  // While dragging, show the two scenes either side of the boundary at their new sizes
+  const displayedBounds = clips.map((clip, index) => {
+    if (!drag) return clip;
+    if (index === drag.index) return { ...clip, endTime: drag.time };
+    if (index === drag.index + 1) return { ...clip, startTime: drag.time };
+    return clip;
+  });
+  
+  return (
+    <Card className="mt-6 overflow-hidden">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-800">Timeline</h2>
+        <span className="text-sm text-gray-500 font-mono">
+          {formatDuration(playhead)} / {formatDuration(duration)}
+        </span>
+      </div>
+      
+      <div className="p-4">
+        <div className="bg-gray-900 rounded-lg overflow-hidden mb-4">
+          <video
+            ref={videoRef}
+            className="w-full max-h-96"
+            controls
+            preload="metadata"
+            onTimeUpdate={(e) => setPlayhead(Math.round(e.currentTarget.currentTime * 1000))}
+          >
+            Your browser doesn't support HTML5 video.
+          </video>
+        </div>
+        
+        {/* Scenes sized by duration, each filled with its thumbnail */}
+        <div
+          ref={trackRef}
+          className="relative h-16 bg-gray-200 rounded-md select-none cursor-pointer"
+          onClick={handleTrackClick}
+          onDoubleClick={handleTrackDoubleClick}
+          onMouseMove={(e) => setHoverTime(timeAt(e.clientX))}
+          onMouseLeave={() => setHoverTime(null)}
+        >
+          {displayedBounds.map((clip, index) => (
+            <div
+              key={clip.id}
+              className={`absolute top-0 bottom-0 border-2 overflow-hidden ${
+                selectedClipIndex === index ? "border-primary z-10" : "border-gray-700"
+              }`}
+              style={{
+                left: percent(clip.startTime),
+                width: percent(clip.endTime - clip.startTime),
+                backgroundImage: `url(${thumbnailAt(clip.thumbnailUrl, 160)})`,
+                backgroundRepeat: "repeat-x",
+                backgroundSize: "auto 100%",
+              }}
+              title={`Scene ${index + 1} · ${formatDuration(clip.endTime - clip.startTime)}`}
+            >
+              <span className="absolute bottom-0 left-0 px-1 text-xs text-white bg-black bg-opacity-60">
+                {index + 1}
+              </span>
+            </div>
+          ))}
+          
+          {/* Handles on the boundaries between scenes */}
+          {displayedBounds.slice(0, -1).map((clip, index) => (
+            <div
+              key={`boundary-${clip.id}`}
+              className="absolute top-0 bottom-0 w-2 -ml-1 z-20 cursor-ew-resize group"
+              style={{ left: percent(clip.endTime) }}
+              onClick={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => startDrag(index, e)}
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={() => setDrag(null)}
+            >
+              <div className={`mx-auto h-full w-0.5 ${drag?.index === index ? "bg-yellow-400" : "bg-white group-hover:bg-yellow-400"}`} />
+            </div>
+          ))}
+          
+          {/* Frame under the pointer, from the source's sprite sheet */}
+          {hoverTime !== null && !drag && (
+            <div
+              className="absolute bottom-full mb-2 -translate-x-1/2 z-40 pointer-events-none rounded shadow-lg overflow-hidden"
+              style={{ left: percent(hoverTime) }}
+            >
+              <ThumbnailPreview trackUrl={`/api/videos/${videoId}/thumbnails.vtt`} time={hoverTime} />
+              <div className="bg-black text-white text-xs text-center font-mono py-0.5">{formatDuration(hoverTime)}</div>
+            </div>
+          )}
+          
+          {/* Playhead */}
+          <div
+            className="absolute -top-1 -bottom-1 w-0.5 bg-red-600 z-30 pointer-events-none"
+            style={{ left: percent(Math.min(playhead, duration)) }}
+          />
+        </div>
+        
+        <div className="flex justify-between mt-2 text-xs text-gray-500">
+          <span>Click to select, double-click to split, drag a boundary to move it</span>
+          {edit.isPending && <span>Re-extracting clips...</span>}
+          {edit.isError && <span className="text-red-700">{edit.error.message}</span>}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
+import ProcessingSettings from "@/components/ProcessingSettings";
+import type { ProcessingOptions } from "@shared/schema";
 
 interface UploadCardProps {
   selectedFile: File | null;
   isUploading: boolean;
   uploadProgress: number;
+  settings: ProcessingOptions;
+  onSettingsChange: (settings: ProcessingOptions) => void;
   onFileSelect: (file: File) => void;
   onRemoveFile: () => void;
   startProcessing: () => void;
@@ -15,6 +19,8 @@ export default function UploadCard({
   selectedFile,
   isUploading,
   uploadProgress,
+  settings,
+  onSettingsChange,
   onFileSelect,
   onRemoveFile,
   startProcessing,
@@ -159,6 +165,7 @@ export default function UploadCard({
                 </svg>
               </button>
             </div>
+            <ProcessingSettings settings={settings} onChange={onSettingsChange} />
             <div className="flex flex-col sm:flex-row gap-3">
               <button 
                 type="button" 
@@ -1,5 +1,7 @@
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import type { VideoInfo } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { MediaProbe, ProbeStream, VideoInfo } from "@shared/schema";
 
 interface VideoInfoCardProps {
   videoInfo: VideoInfo | null;
@@ -18,7 +20,13 @@ const formatBytes = (bytes: number, decimals = 2) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
+// Helper to format bits per second
+const formatBitRate = (bitRate: number) =>
+  bitRate >= 1000000 ? `${(bitRate / 1000000).toFixed(1)} Mb/s` : `${Math.round(bitRate / 1000)} kb/s`;
+
 export default function VideoInfoCard({ videoInfo }: VideoInfoCardProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  
   return (
     <Card>
       <CardContent className="p-6">
@@ -56,7 +64,93 @@ export default function VideoInfoCard({ videoInfo }: VideoInfoCardProps) {
             </li>
           </ul>
         )}
+        
+        {/* Full probe details */}
+        {videoInfo?.probe && (
+          <Collapsible open={showDetails} onOpenChange={setShowDetails} className="mt-2 border-t border-gray-200 pt-3">
+            <CollapsibleTrigger asChild>
+              <button type="button" className="w-full flex items-center justify-between text-sm font-medium text-gray-700 hover:text-gray-900">
+                <span>Technical Details</span>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transition-transform ${showDetails ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-3 space-y-4">
+              <ProbeSection title="Container" rows={containerRows(videoInfo.probe)} />
+              {videoInfo.probe.streams.map((stream) => (
+                <ProbeSection
+                  key={stream.index}
+                  title={`${streamTypeLabels[stream.type]} stream ${stream.index}`}
+                  rows={streamRows(stream)}
+                />
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
       </CardContent>
     </Card>
   );
 }
+
+type DetailRow = [label: string, value: string | undefined];
+
+const streamTypeLabels: Record<ProbeStream["type"], string> = {
+  video: "Video",
+  audio: "Audio",
+  subtitle: "Subtitle",
+  data: "Data",
+  attachment: "Attachment",
+  unknown: "Other",
+};
+
+function ProbeSection({ title, rows }: { title: string; rows: DetailRow[] }) {
+  const known = rows.filter(([, value]) => value !== undefined && value !== "");
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{title}</h3>
+      <dl className="text-sm">
+        {known.map(([label, value]) => (
+          <div key={label} className="flex justify-between py-0.5">
+            <dt className="text-gray-600">{label}</dt>
+            <dd className="text-gray-900 text-right ml-4 break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+function containerRows(probe: MediaProbe): DetailRow[] {
+  return [
+    ["Format", probe.containerLongName ?? probe.container],
+    ["Bit rate", probe.bitRate ? formatBitRate(probe.bitRate) : undefined],
+    ["Created", probe.creationTime ? new Date(probe.creationTime).toLocaleString() : undefined],
+    ...Object.entries(probe.tags)
+      .filter(([key]) => key !== "creation_time")
+      .map(([key, value]): DetailRow => [key, value]),
+  ];
+}
+
+function streamRows(stream: ProbeStream): DetailRow[] {
+  const frameRate = stream.frameRate !== undefined
+    ? `${stream.frameRate} fps${stream.averageFrameRate !== undefined && stream.averageFrameRate !== stream.frameRate ? ` (avg ${stream.averageFrameRate}, variable)` : ""}`
+    : undefined;
+
+  return [
+    ["Codec", [stream.codecLongName ?? stream.codec, stream.profile].filter(Boolean).join(", ")],
+    ["Resolution", stream.width && stream.height ? `${stream.width} × ${stream.height}` : undefined],
+    ["Frame rate", frameRate],
+    ["Pixel format", stream.pixelFormat],
+    ["Pixel aspect", stream.sampleAspectRatio && stream.sampleAspectRatio !== "1:1" ? stream.sampleAspectRatio : undefined],
+    ["Color", [stream.colorSpace, stream.colorPrimaries, stream.colorTransfer].filter(Boolean).join(" / ")],
+    ["HDR", stream.hdr],
+    ["Rotation", stream.rotation ? `${stream.rotation}°` : undefined],
+    ["Channels", stream.channels !== undefined ? `${stream.channels}${stream.channelLayout ? ` (${stream.channelLayout})` : ""}` : undefined],
+    ["Sample rate", stream.sampleRate ? `${stream.sampleRate} Hz` : undefined],
+    ["Bit rate", stream.bitRate ? formatBitRate(stream.bitRate) : undefined],
+    ["Language", stream.language],
+    ["Title", stream.title],
+    ["Default", stream.type === "audio" || stream.type === "subtitle" ? (stream.isDefault ? "Yes" : "No") : undefined],
+  ];
+}
@@ -0,0 +1,52 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ClipInfo, Job } from "@shared/schema";
+
+// Boundary edits, each re-extracting only the clips it changes
+export type ClipEdit =
+  | { kind: "split"; clip: ClipInfo; time: number }
+  | { kind: "merge-next"; clip: ClipInfo }
+  | { kind: "boundary"; clip: ClipInfo; time: number };
+
+// How often to check on the job applying an edit, in ms
+const JOB_POLL_INTERVAL = 1000;
+
+// Send a clip edit to the server, passing the re-indexed clips on once the job
+// re-extracting them has finished
+export function useClipEdit(onClipsChange: (clips: ClipInfo[]) => void) {
+  return useMutation({
+    mutationFn: async (change: ClipEdit): Promise<ClipInfo[]> => {
+      const body = change.kind === "merge-next" ? undefined : { time: change.time };
+      const response = await apiRequest("POST", `/api/clips/${change.clip.id}/${change.kind}`, body);
+      const { jobId } = await response.json();
+
+      const job = await waitForJob(jobId);
+      if (job.status === "failed") {
+        throw new Error(job.error || "The edit could not be applied");
+      }
+      if (job.status === "cancelled") {
+        throw new Error("The edit was cancelled");
+      }
+
+      const status = await apiRequest("GET", `/api/videos/${change.clip.videoId}/status`);
+      return (await status.json()).clips;
+    },
+    onSuccess: onClipsChange,
+  });
+}
+
+// Stop the edit being applied to a video's clips
+export async function cancelClipEdit(videoId: number): Promise<void> {
+  await apiRequest("POST", `/api/videos/${videoId}/cancel`);
+}
+
+async function waitForJob(jobId: number): Promise<Pick<Job, "status" | "error">> {
+  for (;;) {
+    const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+    const job = await response.json();
+    if (job.status !== "queued" && job.status !== "running") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL));
+  }
+}
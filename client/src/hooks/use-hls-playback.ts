@@ -0,0 +1,60 @@
+import { useEffect, type RefObject } from "react";
+import Hls from "hls.js";
+
+// Play an HLS stream in the video element when the server has one ready, and the
+// progressive file otherwise. The server packages streams on first request and answers
+// with an error until the package exists, so the first viewing plays progressively
+export function useHlsPlayback(
+  videoRef: RefObject<HTMLVideoElement>,
+  hlsUrl: string | undefined,
+  progressiveUrl: string
+) {
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    
+    let hls: Hls | null = null;
+    let cancelled = false;
+    
+    const playProgressive = () => {
+      video.src = progressiveUrl;
+    };
+    
+    // Safari plays HLS natively; elsewhere hls.js feeds it through Media Source Extensions
+    const nativeHls = video.canPlayType("application/vnd.apple.mpegurl") !== "";
+    if (!hlsUrl || (!Hls.isSupported() && !nativeHls)) {
+      playProgressive();
+      return;
+    }
+    
+    fetch(hlsUrl, { method: "HEAD", credentials: "include" }).then(
+      (response) => {
+        if (cancelled) return;
+        if (!response.ok) return playProgressive();
+        
+        if (Hls.isSupported()) {
+          hls = new Hls();
+          hls.on(Hls.Events.ERROR, (_event, data) => {
+            if (data.fatal) {
+              hls?.destroy();
+              hls = null;
+              playProgressive();
+            }
+          });
+          hls.loadSource(hlsUrl);
+          hls.attachMedia(video);
+        } else {
+          video.src = hlsUrl;
+        }
+      },
+      () => {
+        if (!cancelled) playProgressive();
+      }
+    );
+    
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+    };
+  }, [videoRef, hlsUrl, progressiveUrl]);
+}
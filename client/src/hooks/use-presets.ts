@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { EncodingPresetInfo, SystemCapabilities } from "@shared/schema";
+
+// Encoding presets, without those the server's ffmpeg build cannot encode
+export function usePresets(): EncodingPresetInfo[] {
+  const { data: presets = [] } = useQuery<EncodingPresetInfo[]>({
+    queryKey: ["/api/presets"],
+    staleTime: Infinity,
+  });
+  const { data: capabilities } = useQuery<SystemCapabilities>({
+    queryKey: ["/api/system/capabilities"],
+    staleTime: Infinity,
+  });
+
+  // Offer everything until the check answers, or when ffmpeg could not be queried at all
+  if (!capabilities || capabilities.ffmpegVersion === null) {
+    return presets;
+  }
+  return presets.filter((preset) => capabilities.supportedPresets.includes(preset.id));
+}
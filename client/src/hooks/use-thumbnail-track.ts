@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+
+// One interval of a WebVTT thumbnail track and where its frame sits on the sprite sheet
+export interface ThumbnailCue {
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Load a thumbnail track and return a lookup of the frame to show at a time. Tracks that
+// are missing, as for clips processed before sprites existed, simply show nothing
+export function useThumbnailTrack(trackUrl: string | undefined): (time: number) => ThumbnailCue | null {
+  const { data: cues = [] } = useQuery<ThumbnailCue[]>({
+    queryKey: [trackUrl],
+    queryFn: async () => {
+      const response = await fetch(trackUrl!, { credentials: "include" });
+      if (!response.ok) return [];
+      return parseThumbnailTrack(await response.text(), new URL(trackUrl!, window.location.href));
+    },
+    enabled: Boolean(trackUrl),
+  });
+  
+  return (time: number) => cues.find((cue) => time >= cue.start && time < cue.end) ?? cues[cues.length - 1] ?? null;
+}
+
+// Cues look like "00:00:02.000 --> 00:00:04.000" followed by "sprite.jpg#xywh=160,0,160,90"
+function parseThumbnailTrack(text: string, baseUrl: URL): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = [];
+  
+  for (const block of text.split(/\r?\n\r?\n/)) {
+    const lines = block.trim().split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    const reference = lines[timingIndex + 1];
+    if (timingIndex === -1 || !reference) continue;
+    
+    const [start, end] = lines[timingIndex].split("-->").map((time) => parseVttTime(time.trim()));
+    const [url, fragment] = reference.trim().split("#xywh=");
+    const [x, y, width, height] = (fragment ?? "").split(",").map(Number);
+    if (isNaN(start) || isNaN(end) || [x, y, width, height].some((value) => isNaN(value))) continue;
+    
+    cues.push({ start, end, url: new URL(url, baseUrl).toString(), x, y, width, height });
+  }
+  
+  return cues;
+}
+
+// Hours are optional in WebVTT timestamps: "mm:ss.ttt" or "hh:mm:ss.ttt"
+function parseVttTime(time: string): number {
+  const parts = time.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return Math.round(seconds * 1000);
+}
@@ -1,6 +1,12 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { THUMBNAIL_WIDTHS } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Ask a thumbnail route for a copy resized to one of the widths the server allows
+export function thumbnailAt(url: string, width: (typeof THUMBNAIL_WIDTHS)[number]) {
+  return `${url}${url.includes("?") ? "&" : "?"}w=${width}`
+}
@@ -1,13 +1,15 @@
 import UploadCard from "@/components/UploadCard";
 import ProcessingCard from "@/components/ProcessingCard";
 import VideoInfoCard from "@/components/VideoInfoCard";
+import SceneScoreCard from "@/components/SceneScoreCard";
 import ClipsPreviewCard from "@/components/ClipsPreviewCard";
+import TimelineEditor from "@/components/TimelineEditor";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useWebSocket } from "@/lib/hooks";
-import type { VideoInfo, ClipInfo, ProcessingStatus } from "@shared/schema";
+import { DEFAULT_MIN_SCENE_LENGTH, DEFAULT_SCENE_THRESHOLD, DEFAULT_SILENCE_MIN_GAP, DEFAULT_SILENCE_NOISE_FLOOR, type VideoInfo, type ClipInfo, type ProcessingStatus, type ProcessingOptions, type EncodingPresetId } from "@shared/schema";
 
 export default function Home() {
   const { toast } = useToast();
@@ -23,6 +25,19 @@ export default function Home() {
   const [clips, setClips] = useState<ClipInfo[]>([]);
   const [selectedClipIndex, setSelectedClipIndex] = useState(0);
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions>({
+    detector: "content",
+    extractionMode: "reencode",
+    preset: "h264",
+    threshold: DEFAULT_SCENE_THRESHOLD,
+    silenceNoiseFloor: DEFAULT_SILENCE_NOISE_FLOOR,
+    silenceMinGap: DEFAULT_SILENCE_MIN_GAP,
+    minSceneLength: DEFAULT_MIN_SCENE_LENGTH,
+    trimBlack: false,
+    trimSilence: false,
+    dropEmptyScenes: false,
+  });
+  const uploadRequestRef = useRef<XMLHttpRequest | null>(null);
   
   // Set up WebSocket connection with useEffect to prevent infinite loops
   useEffect(() => {
@@ -50,6 +65,9 @@ export default function Home() {
             status: data.status || prevStatus.status,
             progress: data.progress !== undefined ? data.progress : prevStatus.progress,
             stage: data.stage || prevStatus.stage,
+            // Timing only applies to the update it came with
+            eta: data.eta,
+            speed: data.speed,
             error: data.error
           }));
           
@@ -171,6 +189,7 @@ export default function Home() {
     
     // Upload with progress tracking
     const xhr = new XMLHttpRequest();
+    uploadRequestRef.current = xhr;
     xhr.open('POST', '/api/videos/upload', true);
     xhr.withCredentials = true;
     
@@ -182,6 +201,7 @@ export default function Home() {
     };
     
     xhr.onload = () => {
+      uploadRequestRef.current = null;
       if (xhr.status === 200) {
         const response = JSON.parse(xhr.responseText);
         setIsUploading(false);
@@ -189,7 +209,7 @@ export default function Home() {
         setUploadedVideoId(response.id);
         
         // Start processing the video
-        apiRequest('POST', `/api/videos/${response.id}/process`, {})
+        apiRequest('POST', `/api/videos/${response.id}/process`, processingOptions)
           .then(() => {
             queryClient.invalidateQueries({ queryKey: ['/api/videos/status', response.id] });
           })
@@ -212,6 +232,7 @@ export default function Home() {
     };
     
     xhr.onerror = () => {
+      uploadRequestRef.current = null;
       setIsUploading(false);
       setUploadProgress(0);
       toast({
@@ -221,19 +242,50 @@ export default function Home() {
       });
     };
     
+    xhr.onabort = () => {
+      uploadRequestRef.current = null;
+      setIsUploading(false);
+      setUploadProgress(0);
+      toast({
+        title: "Upload cancelled",
+        description: "The upload was stopped before it finished.",
+      });
+    };
+    
     xhr.send(formData);
   };
 
   // Cancel ongoing upload
   const cancelUpload = () => {
-    setIsUploading(false);
-    setUploadProgress(0);
+    if (uploadRequestRef.current) {
+      uploadRequestRef.current.abort();
+    } else {
+      setIsUploading(false);
+      setUploadProgress(0);
+    }
+  };
+
+  // Cancel processing of the uploaded video
+  const cancelProcessing = () => {
+    if (!uploadedVideoId) return;
+    
+    apiRequest('POST', `/api/videos/${uploadedVideoId}/cancel`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ['/api/videos/status', uploadedVideoId] });
+      })
+      .catch((error) => {
+        toast({
+          title: "Cancel failed",
+          description: error.message || "There was an error cancelling processing.",
+          variant: "destructive",
+        });
+      });
   };
 
   // Try processing again after an error
-  const tryAgain = () => {
+  const tryAgain = (options: ProcessingOptions = processingOptions) => {
     if (uploadedVideoId) {
-      apiRequest('POST', `/api/videos/${uploadedVideoId}/process`, {})
+      apiRequest('POST', `/api/videos/${uploadedVideoId}/process`, options)
         .then(() => {
           setProcessingStatus({
             status: "processing",
@@ -260,13 +312,27 @@ export default function Home() {
     }
   };
 
+  // Reprocess with settings chosen from the scene score preview
+  const applyPreviewSettings = (changes: Partial<ProcessingOptions>) => {
+    const options = { ...processingOptions, ...changes };
+    setProcessingOptions(options);
+    tryAgain(options);
+  };
+
   // Download a specific clip
-  const downloadClip = (index: number) => {
+  const downloadClip = (index: number, preset?: EncodingPresetId) => {
     if (clips.length > index) {
-      window.location.href = `/api/clips/${clips[index].id}/download`;
+      const query = preset ? `?preset=${preset}` : "";
+      window.location.href = `/api/clips/${clips[index].id}/download${query}`;
     }
   };
 
+  // Show clips after an edit, keeping the selection on the same position
+  const handleClipsChange = (updated: ClipInfo[]) => {
+    setClips(updated);
+    setSelectedClipIndex((index) => Math.min(index, updated.length - 1));
+  };
+  
   // Download all clips as a zip
   const downloadAllClips = () => {
     if (uploadedVideoId) {
@@ -294,6 +360,8 @@ export default function Home() {
                 selectedFile={selectedFile}
                 isUploading={isUploading}
                 uploadProgress={uploadProgress}
+                settings={processingOptions}
+                onSettingsChange={setProcessingOptions}
                 onFileSelect={handleFileSelect}
                 onRemoveFile={handleRemoveFile}
                 startProcessing={startProcessing}
@@ -301,12 +369,23 @@ export default function Home() {
               />
               
               <ProcessingCard
+                videoId={uploadedVideoId}
                 processingStatus={processingStatus}
                 clips={clips}
-                onTryAgain={tryAgain}
+                settings={processingOptions}
+                onSettingsChange={setProcessingOptions}
+                onTryAgain={() => tryAgain()}
+                onCancel={cancelProcessing}
                 onDownloadAllClips={downloadAllClips}
               />
               
+              <SceneScoreCard
+                videoId={uploadedVideoId}
+                processingStatus={processingStatus}
+                settings={processingOptions}
+                onApply={applyPreviewSettings}
+              />
+              
               <VideoInfoCard videoInfo={videoInfo} />
             </div>
             
@@ -317,9 +396,21 @@ export default function Home() {
                 selectedClipIndex={selectedClipIndex}
                 onSelectClip={setSelectedClipIndex}
                 onDownloadClip={downloadClip}
+                onClipsChange={handleClipsChange}
               />
             </div>
           </div>
+          
+          {uploadedVideoId && clips.length > 0 && (
+            <TimelineEditor
+              videoId={uploadedVideoId}
+              duration={videoInfo?.probe?.duration ?? clips[clips.length - 1].endTime}
+              clips={clips}
+              selectedClipIndex={selectedClipIndex}
+              onSelectClip={setSelectedClipIndex}
+              onClipsChange={handleClipsChange}
+            />
+          )}
         </main>
         
         {/* Footer */}
@@ -0,0 +1,32 @@
+CREATE TABLE "clips" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" integer NOT NULL,
+	"filename" text NOT NULL,
+	"file_path" text NOT NULL,
+	"thumbnail_path" text NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"duration" integer NOT NULL,
+	"scene_index" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "videos" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_filename" text NOT NULL,
+	"file_path" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"duration" integer,
+	"format" text,
+	"resolution" text,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL,
+	"processing_status" text DEFAULT 'pending' NOT NULL
+);
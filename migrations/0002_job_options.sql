@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "options" json;
\ No newline at end of file
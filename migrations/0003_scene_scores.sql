@@ -0,0 +1,8 @@
+CREATE TABLE "scene_scores" (
+	"video_id" integer PRIMARY KEY NOT NULL,
+	"range_start" integer NOT NULL,
+	"range_end" integer NOT NULL,
+	"times" json NOT NULL,
+	"scores" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "clips" ADD COLUMN "preset" text;
\ No newline at end of file
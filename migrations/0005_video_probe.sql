@@ -0,0 +1 @@
+ALTER TABLE "videos" ADD COLUMN "probe" json;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "clips" ADD COLUMN "start_frame" integer;--> statement-breakpoint
+ALTER TABLE "clips" ADD COLUMN "end_frame" integer;--> statement-breakpoint
+ALTER TABLE "clips" ADD COLUMN "frame_rate" double precision;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "clips" ADD COLUMN "detected_start_time" integer;--> statement-breakpoint
+ALTER TABLE "clips" ADD COLUMN "detected_end_time" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "clips" ADD COLUMN "thumbnail_candidates" json;--> statement-breakpoint
+ALTER TABLE "clips" ADD COLUMN "poster_index" integer;
\ No newline at end of file
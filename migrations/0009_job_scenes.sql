@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "scenes" json;
\ No newline at end of file
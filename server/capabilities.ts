@@ -0,0 +1,100 @@
+import type { SystemCapabilities } from '@shared/schema';
+import { getBinaryPath, runFfmpeg, runFfprobe } from './ffmpeg';
+import { listPresets } from './presets';
+
+// Filters the scene detectors and thumbnailing rely on
+const REQUIRED_FILTERS = ['select', 'metadata', 'blackdetect', 'showinfo', 'scale', 'format'];
+
+let capabilities: Promise<SystemCapabilities> | null = null;
+
+// Ask the installed ffmpeg what it can do; the result is cached for the life of the process
+export function getCapabilities(): Promise<SystemCapabilities> {
+  if (!capabilities) {
+    capabilities = detectCapabilities();
+  }
+  return capabilities;
+}
+
+// Whether the installed ffmpeg has every encoder a preset needs. Presets are assumed
+// to work when ffmpeg could not be queried, so a failed check does not block processing
+export async function isPresetSupported(presetId: string): Promise<boolean> {
+  const { ffmpegVersion, supportedPresets } = await getCapabilities();
+  return ffmpegVersion === null || supportedPresets.some((id) => id === presetId);
+}
+
+// Log the ffmpeg build in use and anything it is missing
+export async function logCapabilities(): Promise<void> {
+  const { ffmpegVersion, ffprobeAvailable, encoders, filters, supportedPresets } = await getCapabilities();
+
+  if (ffmpegVersion === null) {
+    console.error(`ffmpeg could not be run from ${getBinaryPath('ffmpeg')}; video processing will fail`);
+    return;
+  }
+
+  console.log(`Using ffmpeg ${ffmpegVersion} from ${getBinaryPath('ffmpeg')} (${encoders.length} encoders, ${filters.length} filters)`);
+  if (!ffprobeAvailable) {
+    console.error(`ffprobe could not be run from ${getBinaryPath('ffprobe')}; video processing will fail`);
+  }
+
+  const missingFilters = REQUIRED_FILTERS.filter((filter) => !filters.includes(filter));
+  if (missingFilters.length > 0) {
+    console.error(`ffmpeg is missing filters needed for scene detection: ${missingFilters.join(', ')}`);
+  }
+
+  const unsupported = listPresets().filter((preset) => !supportedPresets.includes(preset.id));
+  if (unsupported.length > 0) {
+    console.log(`Presets unavailable with this ffmpeg build: ${unsupported.map((preset) => preset.id).join(', ')}`);
+  }
+}
+
+async function detectCapabilities(): Promise<SystemCapabilities> {
+  try {
+    const [version, encoderList, filterList] = await Promise.all([
+      captureFfmpeg(['-version']),
+      captureFfmpeg(['-encoders']),
+      captureFfmpeg(['-filters']),
+    ]);
+    const ffprobeAvailable = await runFfprobe(['-version']).then(() => true, () => false);
+
+    // Lines look like " V....D libx264   libx264 H.264 / AVC ..."
+    const encoders = parseNames(encoderList, /^\s[VAS.][F.][S.][X.][B.][D.]\s+(\S+)/);
+    // Lines look like " T.C blackdetect   V->V   Detect video intervals ..."
+    const filters = parseNames(filterList, /^\s[T.][S.][C.]\s+(\S+)\s+\S+->\S+/);
+
+    return {
+      ffmpegVersion: version.match(/^ffmpeg version (\S+)/)?.[1] ?? 'unknown',
+      ffprobeAvailable,
+      encoders,
+      filters,
+      supportedPresets: listPresets()
+        .filter((preset) => preset.encoders.every((encoder) => encoders.includes(encoder)))
+        .map((preset) => preset.id),
+    };
+  } catch (error) {
+    console.error('Failed to query ffmpeg capabilities:', error);
+    return {
+      ffmpegVersion: null,
+      ffprobeAvailable: false,
+      encoders: [],
+      filters: [],
+      supportedPresets: [],
+    };
+  }
+}
+
+// Run an informational ffmpeg command and return what it printed
+async function captureFfmpeg(args: string[]): Promise<string> {
+  const chunks: Buffer[] = [];
+  await runFfmpeg(args, {
+    timeout: 30 * 1000,
+    onStdout: (chunk) => chunks.push(chunk),
+  });
+  return Buffer.concat(chunks).toString();
+}
+
+function parseNames(output: string, pattern: RegExp): string[] {
+  return output
+    .split('\n')
+    .map((line) => line.match(pattern)?.[1])
+    .filter((name): name is string => Boolean(name) && name !== '=');
+}
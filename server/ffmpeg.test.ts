@@ -0,0 +1,158 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { FfmpegError, runFfmpeg, runFfprobe } from "./ffmpeg";
+
+// Stands in for ffmpeg and ffprobe, doing whatever FAKE_FFMPEG_SCENARIO asks. Its
+// arguments are echoed on the first line of stderr so tests can check them
+const FAKE_BINARY = `#!/usr/bin/env node
+const scenario = process.env.FAKE_FFMPEG_SCENARIO;
+process.stderr.write("args: " + JSON.stringify(process.argv.slice(2)) + "\\n");
+
+if (scenario === "fail") {
+  for (let i = 1; i <= 15; i++) process.stderr.write("error line " + i + "\\n");
+  process.exit(3);
+} else if (scenario === "hang") {
+  setInterval(() => {}, 1000);
+} else if (scenario === "progress") {
+  // Blocks split mid-line, as pipes deliver them
+  process.stdout.write("frame=10\\nout_time_ms=1500");
+  setTimeout(() => {
+    process.stdout.write("000\\nprogress=continue\\nout_time_ms=3250000\\nprogress=end\\n");
+    process.exit(0);
+  }, 50);
+} else if (scenario === "probe") {
+  process.stdout.write('{"format":');
+  process.stdout.write('{"duration":"1.5"}}');
+} else {
+  process.exit(0);
+}
+`;
+
+let binaryDir: string;
+
+beforeAll(() => {
+  binaryDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-ffmpeg-"));
+  for (const name of ["ffmpeg", "ffprobe"]) {
+    fs.writeFileSync(path.join(binaryDir, name), FAKE_BINARY, { mode: 0o755 });
+  }
+  // Read once, on the first run
+  process.env.FFMPEG_PATH = path.join(binaryDir, "ffmpeg");
+  process.env.FFPROBE_PATH = path.join(binaryDir, "ffprobe");
+});
+
+afterAll(() => {
+  fs.rmSync(binaryDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  return () => {
+    delete process.env.FAKE_FFMPEG_SCENARIO;
+    vi.restoreAllMocks();
+  };
+});
+
+// The arguments the fake binary was started with
+function argsFrom(lines: string[]): string[] {
+  const echoed = lines.find((line) => line.startsWith("args: "));
+  return echoed ? JSON.parse(echoed.slice("args: ".length)) : [];
+}
+
+describe("runFfmpeg", () => {
+  it("resolves when ffmpeg exits cleanly", async () => {
+    const lines: string[] = [];
+    await runFfmpeg(["-i", "file:/in.mp4", "file:/out.mp4"], { onStderrLine: (line) => lines.push(line) });
+
+    expect(argsFrom(lines)).toEqual(["-hide_banner", "-i", "file:/in.mp4", "file:/out.mp4"]);
+  });
+
+  it("rejects with the exit code and the last lines of stderr", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "fail";
+
+    const error = await runFfmpeg(["-i", "file:/in.mp4"], { failureMessage: "Failed to extract clip" }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(FfmpegError);
+    expect(error.message).toBe("Failed to extract clip: ffmpeg exited with code 3");
+    expect(error.exitCode).toBe(3);
+    expect(error.timedOut).toBe(false);
+    expect(error.stderrTail.split("\n")).toEqual(Array.from({ length: 10 }, (_, i) => `error line ${i + 6}`));
+  });
+
+  it("kills ffmpeg once the timeout passes", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "hang";
+
+    const error = await runFfmpeg([], { timeout: 1000, failureMessage: "Failed to generate thumbnail" }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(FfmpegError);
+    expect(error.timedOut).toBe(true);
+    expect(error.message).toBe("Failed to generate thumbnail: timed out after 1s");
+  });
+
+  it("stops ffmpeg when the signal aborts", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "hang";
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 300);
+
+    const error = await runFfmpeg([], { signal: controller.signal }).catch((err) => err);
+
+    expect(error.name).toBe("AbortError");
+    expect(error).not.toBeInstanceOf(FfmpegError);
+  });
+
+  it("does not start ffmpeg for an aborted signal", async () => {
+    const lines: string[] = [];
+    const error = await runFfmpeg([], { signal: AbortSignal.abort(), onStderrLine: (line) => lines.push(line) }).catch((err) => err);
+
+    expect(error.name).toBe("AbortError");
+    expect(lines).toEqual([]);
+  });
+
+  it("reports progress from -progress output split across chunks", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "progress";
+    const lines: string[] = [];
+    const progress: number[] = [];
+
+    await runFfmpeg(["-i", "file:/in.mp4"], {
+      onProgress: (outTime) => progress.push(outTime),
+      onStderrLine: (line) => lines.push(line),
+    });
+
+    expect(argsFrom(lines).slice(0, 4)).toEqual(["-hide_banner", "-progress", "pipe:1", "-nostats"]);
+    // out_time_ms is in microseconds despite its name
+    expect(progress).toEqual([1500, 3250]);
+  });
+
+  it("passes raw stdout through instead of asking for progress", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "probe";
+    const lines: string[] = [];
+    const chunks: Buffer[] = [];
+
+    await runFfmpeg(["-f", "rawvideo", "pipe:1"], {
+      onStdout: (chunk) => chunks.push(chunk),
+      onProgress: () => {},
+      onStderrLine: (line) => lines.push(line),
+    });
+
+    expect(argsFrom(lines)).not.toContain("-progress");
+    expect(Buffer.concat(chunks).toString()).toBe('{"format":{"duration":"1.5"}}');
+  });
+});
+
+describe("runFfprobe", () => {
+  it("returns everything written to stdout", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "probe";
+
+    expect(await runFfprobe(["-show_format"])).toBe('{"format":{"duration":"1.5"}}');
+  });
+
+  it("rejects with an FfmpegError naming ffprobe", async () => {
+    process.env.FAKE_FFMPEG_SCENARIO = "fail";
+
+    const error = await runFfprobe([], { failureMessage: "Failed to get video info" }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(FfmpegError);
+    expect(error.message).toBe("Failed to get video info: ffprobe exited with code 3");
+  });
+});
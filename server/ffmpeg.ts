@@ -0,0 +1,188 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import ffmpegStatic from 'ffmpeg-static';
+
+// Lines of stderr kept for error messages
+const STDERR_TAIL_LINES = 10;
+// ffprobe only reads headers or packet tables, so anything longer is stuck
+const DEFAULT_PROBE_TIMEOUT = 2 * 60 * 1000;
+
+type Binary = 'ffmpeg' | 'ffprobe';
+
+// Executables used for each tool, resolved once on first use
+const binaryPaths: Partial<Record<Binary, string>> = {};
+
+// ffmpeg or ffprobe exited unsuccessfully, or did not finish in time
+export class FfmpegError extends Error {
+  exitCode: number | null;
+  stderrTail: string;
+  timedOut: boolean;
+
+  constructor(message: string, exitCode: number | null, stderrTail: string, timedOut = false) {
+    super(message);
+    this.name = 'FfmpegError';
+    this.exitCode = exitCode;
+    this.stderrTail = stderrTail;
+    this.timedOut = timedOut;
+  }
+}
+
+interface RunOptions {
+  signal?: AbortSignal;
+  // Kill the process if it runs longer than this, in ms
+  timeout?: number;
+  // Prefix for the error message when the process fails
+  failureMessage?: string;
+  onStderrLine?: (line: string) => void;
+}
+
+export interface FfmpegOptions extends RunOptions {
+  // Raw output written to pipe:1; cannot be combined with onProgress
+  onStdout?: (chunk: Buffer) => void;
+  // Called with how much of the output has been written so far, in ms
+  onProgress?: (outTime: number) => void;
+}
+
+// Run ffmpeg, streaming its output, for any pass that writes files or reports progress
+export async function runFfmpeg(args: string[], options: FfmpegOptions = {}): Promise<void> {
+  const { onStdout, onProgress } = options;
+
+  // -progress writes key=value blocks to stdout, so it needs pipe:1 to itself
+  const reportsProgress = Boolean(onProgress && !onStdout);
+  const progressArgs = reportsProgress ? ['-progress', 'pipe:1', '-nostats'] : [];
+  let buffered = '';
+
+  await run('ffmpeg', ['-hide_banner', ...progressArgs, ...args], {
+    failureMessage: 'ffmpeg failed',
+    ...options,
+    onStdout: (chunk) => {
+      if (onStdout) {
+        onStdout(chunk);
+        return;
+      }
+      if (!reportsProgress) return;
+
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        // Despite its name, out_time_ms is in microseconds
+        const matches = line.match(/^out_time_ms=(\d+)/);
+        if (matches) {
+          onProgress?.(Math.floor(parseInt(matches[1], 10) / 1000));
+        }
+      }
+    },
+  });
+}
+
+// Run ffprobe and return everything it printed to stdout
+export async function runFfprobe(args: string[], options: RunOptions = {}): Promise<string> {
+  const chunks: Buffer[] = [];
+
+  await run('ffprobe', ['-v', 'error', ...args], {
+    failureMessage: 'ffprobe failed',
+    timeout: DEFAULT_PROBE_TIMEOUT,
+    ...options,
+    onStdout: (chunk) => chunks.push(chunk),
+  });
+
+  return Buffer.concat(chunks).toString();
+}
+
+// Pass a local path as an input or output without ffmpeg reading it as an
+// option (leading "-") or a protocol ("concat:", "http:" and so on)
+export function fileArg(filePath: string): string {
+  return `file:${path.resolve(filePath)}`;
+}
+
+// Find the executable for a tool: an explicit FFMPEG_PATH / FFPROBE_PATH, then the
+// ffmpeg-static download (which ships ffmpeg only, so ffprobe is looked for beside it),
+// and finally whatever is on PATH
+export function getBinaryPath(binary: Binary): string {
+  const cached = binaryPaths[binary];
+  if (cached) return cached;
+
+  const override = process.env[binary === 'ffmpeg' ? 'FFMPEG_PATH' : 'FFPROBE_PATH'];
+  const bundled = ffmpegStatic && fs.existsSync(ffmpegStatic)
+    ? (binary === 'ffmpeg' ? ffmpegStatic : path.join(path.dirname(ffmpegStatic), path.basename(ffmpegStatic).replace('ffmpeg', 'ffprobe')))
+    : null;
+
+  const resolved = override || (bundled && fs.existsSync(bundled) ? bundled : binary);
+  binaryPaths[binary] = resolved;
+  return resolved;
+}
+
+function run(
+  command: Binary,
+  args: string[],
+  options: RunOptions & { failureMessage: string; onStdout: (chunk: Buffer) => void }
+): Promise<void> {
+  const { signal, timeout, failureMessage, onStderrLine, onStdout } = options;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(getBinaryPath(command), args, { signal });
+    const stderrTail: string[] = [];
+    let buffered = '';
+    let timedOut = false;
+    let settled = false;
+
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill('SIGKILL');
+        }, timeout)
+      : undefined;
+
+    child.stdout.on('data', onStdout);
+    child.stderr.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString();
+      const lines = buffered.split(/\r?\n|\r/);
+      buffered = lines.pop() ?? '';
+      lines.forEach(handleStderrLine);
+    });
+
+    function handleStderrLine(line: string) {
+      if (line.trim()) {
+        stderrTail.push(line);
+        if (stderrTail.length > STDERR_TAIL_LINES) stderrTail.shift();
+      }
+      onStderrLine?.(line);
+    }
+
+    // Raised when the binary cannot be started, or as an AbortError when cancelled
+    child.on('error', (error) => {
+      if (error.name !== 'AbortError') {
+        console.error(`Error running ${command}: ${error.message}`);
+      }
+      settle(error.name === 'AbortError' ? error : new FfmpegError(`${failureMessage}: ${error.message}`, null, ''));
+    });
+
+    child.on('close', (code) => {
+      if (buffered) handleStderrLine(buffered);
+      if (settled) return;
+      const tail = stderrTail.join('\n');
+
+      if (timedOut) {
+        return settle(new FfmpegError(`${failureMessage}: timed out after ${Math.round(timeout! / 1000)}s`, code, tail, true));
+      }
+      if (code !== 0) {
+        console.error(`${command} exited with code ${code}: ${tail}`);
+        return settle(new FfmpegError(`${failureMessage}: ${command} exited with code ${code}`, code, tail));
+      }
+      settle();
+    });
+  });
+}
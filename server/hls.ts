@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { MediaProbe } from '@shared/schema';
+import { getCapabilities } from './capabilities';
+import { fileArg, runFfmpeg } from './ffmpeg';
+import { displaySize } from './probe';
+import { normalizeOutput } from './videoProcessor';
+import { extractionPool } from './workerPool';
+
+// Segment length in seconds; keyframes are forced on these boundaries so every
+// rendition can switch at any segment
+const SEGMENT_DURATION = 4;
+
+interface Rendition {
+  name: string;
+  height: number;
+  videoBitrate: number; // in kbit/s
+  audioBitrate: number; // in kbit/s
+}
+
+// Ladder of renditions, of which those no taller than the source are produced
+const RENDITIONS: Rendition[] = [
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+];
+
+// Encoders packaging relies on
+const HLS_ENCODERS = ['libx264', 'aac'];
+
+const MASTER_PLAYLIST = 'master.m3u8';
+
+// Packages being written, keyed by output directory, so concurrent requests share one run
+const packaging = new Map<string, Promise<void>>();
+
+interface PackageSource {
+  filePath: string;
+  probe: MediaProbe | null;
+  startTime?: number; // in milliseconds
+  endTime?: number; // in milliseconds
+}
+
+// Packaging is opt-in, as it re-encodes every source and clip several times over
+export async function isHlsAvailable(): Promise<boolean> {
+  if (process.env.HLS_ENABLED !== 'true') return false;
+  const { encoders } = await getCapabilities();
+  return HLS_ENCODERS.every((encoder) => encoders.includes(encoder));
+}
+
+// Whether a finished package exists in the directory
+export function hasHlsPackage(outputDir: string): boolean {
+  return fs.existsSync(path.join(outputDir, MASTER_PLAYLIST));
+}
+
+// Start packaging in the background unless it is done or already running. Failures are
+// logged and leave no package behind, so players keep using the progressive file
+export function requestHlsPackage(outputDir: string, source: PackageSource): void {
+  if (hasHlsPackage(outputDir) || packaging.has(outputDir)) return;
+
+  const run = extractionPool.run('hls', () => packageHls(outputDir, source))
+    .catch((error) => {
+      console.error(`Failed to package ${source.filePath} for HLS:`, error);
+    })
+    .finally(() => {
+      packaging.delete(outputDir);
+    });
+  packaging.set(outputDir, run);
+}
+
+// Resolve a file requested from a package, refusing anything outside it
+export function resolveHlsFile(outputDir: string, requested: string): string | null {
+  // A playlist or segment at the top or one rendition directory down; no dots outside
+  // the extension, so ".." cannot appear
+  if (!/^([\w-]+\/)?[\w-]+\.(m3u8|ts)$/.test(requested)) {
+    return null;
+  }
+  const resolved = path.resolve(outputDir, requested);
+  return resolved.startsWith(path.resolve(outputDir) + path.sep) ? resolved : null;
+}
+
+// Encode every rendition in one pass, writing into a scratch directory that is moved
+// into place once the master playlist exists, so a package is never seen half written
+async function packageHls(outputDir: string, source: PackageSource): Promise<void> {
+  const videoStream = source.probe?.streams.find((stream) => stream.type === 'video');
+  const hasAudio = source.probe ? source.probe.streams.some((stream) => stream.type === 'audio') : true;
+  const sourceHeight = (videoStream && displaySize(videoStream)?.height) || RENDITIONS[0].height;
+
+  // Sources smaller than the lowest rung get a single rendition at their own size
+  const renditions = RENDITIONS.filter((rendition) => rendition.height <= sourceHeight);
+  if (renditions.length === 0) {
+    renditions.push({ ...RENDITIONS[0], name: 'source', height: sourceHeight - (sourceHeight % 2) });
+  }
+
+  const normalization = normalizeOutput(videoStream);
+  const splitLabels = renditions.map((_, i) => `[split${i}]`).join('');
+  const filterGraph = [
+    `[0:v]${[...normalization.filters, `split=${renditions.length}`].join(',')}${splitLabels}`,
+    ...renditions.map((rendition, i) => `[split${i}]scale=-2:${rendition.height}[v${i}]`),
+  ].join(';');
+
+  const streamArgs = renditions.flatMap((rendition, i) => [
+    '-map', `[v${i}]`,
+    `-b:v:${i}`, `${rendition.videoBitrate}k`,
+    `-maxrate:v:${i}`, `${Math.round(rendition.videoBitrate * 1.07)}k`,
+    `-bufsize:v:${i}`, `${rendition.videoBitrate * 1.5}k`,
+    ...(hasAudio ? ['-map', 'a:0', `-b:a:${i}`, `${rendition.audioBitrate}k`] : []),
+  ]);
+  const streamMap = renditions
+    .map((rendition, i) => (hasAudio ? `v:${i},a:${i},name:${rendition.name}` : `v:${i},name:${rendition.name}`))
+    .join(' ');
+
+  const rangeArgs = [
+    ...(source.startTime ? ['-ss', (source.startTime / 1000).toFixed(3)] : []),
+    ...(source.endTime !== undefined ? ['-t', ((source.endTime - (source.startTime ?? 0)) / 1000).toFixed(3)] : []),
+  ];
+
+  const scratchDir = `${outputDir}.${uuidv4()}.partial`;
+  await fs.promises.mkdir(scratchDir, { recursive: true });
+  try {
+    await runFfmpeg(
+      [
+        ...rangeArgs,
+        '-i', fileArg(source.filePath),
+        '-filter_complex', filterGraph,
+        ...streamArgs,
+        ...normalization.args,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', 'main',
+        '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_DURATION})`,
+        '-sc_threshold', '0',
+        ...(hasAudio ? ['-c:a', 'aac', '-ac', '2'] : []),
+        '-f', 'hls',
+        '-hls_time', String(SEGMENT_DURATION),
+        '-hls_playlist_type', 'vod',
+        '-hls_segment_type', 'mpegts',
+        '-hls_segment_filename', path.join(scratchDir, '%v', 'segment_%03d.ts'),
+        '-master_pl_name', MASTER_PLAYLIST,
+        '-var_stream_map', streamMap,
+        path.join(scratchDir, '%v', 'index.m3u8'),
+      ],
+      { failureMessage: 'Failed to package HLS' }
+    );
+
+    await fs.promises.rm(outputDir, { recursive: true, force: true });
+    await fs.promises.mkdir(path.dirname(outputDir), { recursive: true });
+    await fs.promises.rename(scratchDir, outputDir);
+  } finally {
+    await fs.promises.rm(scratchDir, { recursive: true, force: true });
+  }
+}
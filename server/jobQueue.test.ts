@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "@shared/schema";
+import { processingOptionsSchema } from "@shared/schema";
+import { JobQueue, type JobHandler } from "./jobQueue";
+import { MemStorage } from "./storage";
+
+const options = processingOptionsSchema.parse({});
+
+let storage: MemStorage;
+let videoId: number;
+
+beforeEach(async () => {
+  storage = new MemStorage();
+  const video = await storage.createVideo({
+    filename: "holiday.mp4",
+    originalFilename: "holiday.mp4",
+    filePath: "/uploads/holiday.mp4",
+    fileSize: 1024,
+  });
+  videoId = video.id;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  return () => {
+    vi.restoreAllMocks();
+  };
+});
+
+// Wait for a job to reach one of the given statuses
+async function settled(jobId: number, statuses = ["completed", "failed", "cancelled"]): Promise<Job> {
+  await vi.waitFor(async () => {
+    expect(statuses).toContain((await storage.getJob(jobId))?.status);
+  });
+  return (await storage.getJob(jobId))!;
+}
+
+describe("JobQueue", () => {
+  it("runs queued jobs and records completion", async () => {
+    const handler = vi.fn<JobHandler>(async () => "completed");
+    const queue = new JobQueue(storage, handler);
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+
+    expect(await settled(job.id)).toMatchObject({ status: "completed", attempts: 1, error: null });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands edited scenes to the handler with the job", async () => {
+    const handler = vi.fn<JobHandler>(async () => "completed");
+    const queue = new JobQueue(storage, handler);
+    await queue.start();
+    const scenes = [{ startTime: 0, endTime: 1500, detectedStartTime: null, detectedEndTime: null }];
+
+    const job = await queue.enqueue(videoId, options, scenes);
+
+    await settled(job.id);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, scenes }), expect.anything(), expect.anything());
+  });
+
+  it("retries a failed job after a delay until it succeeds", async () => {
+    const handler = vi.fn<JobHandler>()
+      .mockRejectedValueOnce(new Error("Failed to extract clip: ffmpeg exited with code 1"))
+      .mockResolvedValueOnce("completed");
+    const onFailed = vi.fn(async () => {});
+    const queue = new JobQueue(storage, handler, { retryDelay: 20, onFailed });
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+
+    expect(await settled(job.id)).toMatchObject({ status: "completed", attempts: 2, error: null });
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it("fails a job with the handler's error once out of attempts", async () => {
+    const handler = vi.fn<JobHandler>(async () => {
+      throw new Error("No scenes detected in the video");
+    });
+    const onFailed = vi.fn(async () => {});
+    const queue = new JobQueue(storage, handler, { maxAttempts: 2, retryDelay: 0, onFailed });
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+
+    const failed = await settled(job.id, ["failed"]);
+    expect(failed).toMatchObject({ attempts: 2, error: "No scenes detected in the video" });
+    expect(handler).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, status: "failed" })));
+  });
+
+  it("does not retry a job that was cancelled", async () => {
+    const handler = vi.fn<JobHandler>((_job, _video, signal) => new Promise((_resolve, reject) => {
+      signal.addEventListener("abort", () => reject(new Error("Aborted")));
+    }));
+    const queue = new JobQueue(storage, handler, { retryDelay: 0 });
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+    await settled(job.id, ["running"]);
+    await queue.cancel(job.id);
+
+    expect(await settled(job.id)).toMatchObject({ status: "cancelled", attempts: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the default concurrency when the setting is not a number", async () => {
+    const queue = new JobQueue(storage, async () => "completed", { concurrency: NaN, maxAttempts: NaN });
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+
+    expect(await settled(job.id)).toMatchObject({ status: "completed", maxAttempts: 3 });
+  });
+
+  it("keeps a job completed when it is cancelled after the work finished", async () => {
+    const queue = new JobQueue(storage, (_job, _video, signal) => new Promise((resolve) => {
+      // The work is done, but the cancel arrives before the handler returns
+      signal.addEventListener("abort", () => setTimeout(() => resolve("completed"), 10));
+    }));
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+    await settled(job.id, ["running"]);
+    await queue.cancel(job.id);
+
+    expect(await settled(job.id)).toMatchObject({ status: "completed" });
+  });
+
+  it("records a cancelled run as cancelled", async () => {
+    const queue = new JobQueue(storage, (_job, _video, signal) => new Promise((resolve) => {
+      signal.addEventListener("abort", () => resolve("cancelled"));
+    }));
+    await queue.start();
+
+    const job = await queue.enqueue(videoId, options);
+    await settled(job.id, ["running"]);
+
+    expect(await queue.cancel(job.id)).toBe("running");
+    expect(await settled(job.id)).toMatchObject({ status: "cancelled" });
+  });
+
+  it("lets a video be queued again while its cancelled job stops, starting it once stopped", async () => {
+    let stop: () => void = () => {};
+    const started: number[] = [];
+    const queue = new JobQueue(storage, (job, _video, signal) => new Promise((resolve) => {
+      started.push(job.id);
+      signal.addEventListener("abort", () => {
+        stop = () => resolve("cancelled");
+      });
+    }), { concurrency: 2 });
+    await queue.start();
+
+    const first = await queue.enqueue(videoId, options);
+    await settled(first.id, ["running"]);
+    await queue.cancel(first.id);
+
+    expect(await queue.getActiveJob(videoId)).toBeUndefined();
+    const second = await queue.enqueue(videoId, options);
+    expect((await queue.getActiveJob(videoId))?.id).toBe(second.id);
+
+    // Free workers are not used for the video until the cancelled run has stopped
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(started).toEqual([first.id]);
+
+    stop();
+    expect(await settled(first.id)).toMatchObject({ status: "cancelled" });
+    await settled(second.id, ["running"]);
+    expect(started).toEqual([first.id, second.id]);
+  });
+
+  it("cancels queued jobs without running them", async () => {
+    const handler = vi.fn<JobHandler>(async () => "completed");
+    const queue = new JobQueue(storage, handler);
+
+    const job = await queue.enqueue(videoId, options);
+
+    expect(await queue.cancel(job.id)).toBe("queued");
+    await queue.start();
+    expect(await storage.getJob(job.id)).toMatchObject({ status: "cancelled" });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("re-queues jobs left running by a previous process", async () => {
+    const orphan = await storage.createJob({ videoId, options, status: "running", attempts: 1 });
+    const queue = new JobQueue(storage, async () => "completed");
+    await queue.start();
+
+    expect(await settled(orphan.id)).toMatchObject({ status: "completed", attempts: 2 });
+  });
+
+  it("gives up on orphaned jobs out of attempts, even when reporting that fails", async () => {
+    const orphan = await storage.createJob({ videoId, options, status: "running", attempts: 3, maxAttempts: 3 });
+    const onFailed = vi.fn(async () => {
+      throw new Error("Database unavailable");
+    });
+    const queue = new JobQueue(storage, async () => "completed", { onFailed });
+
+    await expect(queue.start()).resolves.toBeUndefined();
+
+    expect(await storage.getJob(orphan.id)).toMatchObject({ status: "failed", error: "Processing was interrupted too many times" });
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: orphan.id, status: "failed" }));
+  });
+});
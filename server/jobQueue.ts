@@ -0,0 +1,237 @@
+import type { EditedScene, Job, ProcessingOptions, Video } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY = 5 * 1000;
+
+// How a job that did not fail ended
+export type JobOutcome = "completed" | "cancelled";
+
+// Runs a single job; resolves with how it ended and rejects when it failed. Failed jobs
+// are retried until out of attempts, so the handler leaves reporting failures to onFailed
+export type JobHandler = (job: Job, video: Video, signal: AbortSignal) => Promise<JobOutcome>;
+
+interface JobQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  // Wait before the first retry of a failed job in ms, doubling for each one after
+  retryDelay?: number;
+  // Called when a job is given up on, having failed its last attempt or been
+  // interrupted too often
+  onFailed?: (job: Job) => Promise<void>;
+}
+
+// A job started by this process, and how to stop it
+interface RunningJob {
+  videoId: number;
+  controller: AbortController;
+}
+
+// Durable queue of processing jobs backed by the jobs table
+export class JobQueue {
+  private storage: IStorage;
+  private handler: JobHandler;
+  private concurrency: number;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private onFailed?: (job: Job) => Promise<void>;
+  private running: Map<number, RunningJob>;
+  // Failed jobs queued again, waiting out their delay before they may start
+  private backingOff: Set<number>;
+  private draining: boolean;
+  private drainRequested: boolean;
+  private started: boolean;
+
+  constructor(storage: IStorage, handler: JobHandler, options: JobQueueOptions = {}) {
+    this.storage = storage;
+    this.handler = handler;
+    this.concurrency = atLeastOne(options.concurrency, DEFAULT_CONCURRENCY);
+    this.maxAttempts = atLeastOne(options.maxAttempts, DEFAULT_MAX_ATTEMPTS);
+    this.retryDelay = options.retryDelay !== undefined && Number.isFinite(options.retryDelay)
+      ? Math.max(0, options.retryDelay)
+      : DEFAULT_RETRY_DELAY;
+    this.onFailed = options.onFailed;
+    this.running = new Map();
+    this.backingOff = new Set();
+    this.draining = false;
+    this.drainRequested = false;
+    this.started = false;
+  }
+
+  // Recover jobs orphaned by a previous run and begin working the queue
+  async start(): Promise<void> {
+    await this.recover();
+    this.started = true;
+    this.drain();
+  }
+
+  // Add a job for the given video to the queue, to re-extract the given scenes if any
+  // and otherwise to detect them
+  async enqueue(videoId: number, options: ProcessingOptions, scenes?: EditedScene[]): Promise<Job> {
+    const job = await this.storage.createJob({
+      videoId,
+      options,
+      scenes: scenes ?? null,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+    });
+    this.drain();
+    return job;
+  }
+
+  // Get the queued or running job for a video, if there is one. A running job that was
+  // cancelled no longer counts while it stops, so the video can be queued again at once
+  async getActiveJob(videoId: number): Promise<Job | undefined> {
+    const videoJobs = await this.storage.getJobsByVideo(videoId);
+    return videoJobs.find((job) =>
+      job.status === "queued" ||
+      (job.status === "running" && !this.running.get(job.id)?.controller.signal.aborted)
+    );
+  }
+
+  // Cancel a job, aborting it if it has already started
+  async cancel(jobId: number): Promise<"queued" | "running" | null> {
+    const running = this.running.get(jobId);
+    if (running) {
+      running.controller.abort();
+      return "running";
+    }
+    
+    const job = await this.storage.getJob(jobId);
+    if (!job || job.status !== "queued") {
+      return null;
+    }
+    
+    await this.storage.updateJob(jobId, {
+      status: "cancelled",
+      finishedAt: new Date(),
+    });
+    return "queued";
+  }
+
+  // Jobs still marked running belong to a process that died mid-run
+  private async recover(): Promise<void> {
+    const orphaned = await this.storage.getJobsByStatus(["running"]);
+
+    for (const job of orphaned) {
+      if (job.attempts < job.maxAttempts) {
+        console.log(`Re-queueing job ${job.id} for video ${job.videoId} after restart`);
+        await this.storage.updateJob(job.id, { status: "queued", startedAt: null });
+      } else {
+        console.log(`Abandoning job ${job.id} for video ${job.videoId} after ${job.attempts} attempts`);
+        const failedJob = await this.storage.updateJob(job.id, {
+          status: "failed",
+          error: "Processing was interrupted too many times",
+          finishedAt: new Date(),
+        });
+        await this.reportFailed(failedJob);
+      }
+    }
+  }
+
+  // Start queued jobs until the concurrency limit is reached
+  private async drain(): Promise<void> {
+    if (!this.started) return;
+    if (this.draining) {
+      // Pick up jobs enqueued while a drain is already in flight
+      this.drainRequested = true;
+      return;
+    }
+    this.draining = true;
+
+    try {
+      do {
+        this.drainRequested = false;
+        await this.fill();
+      } while (this.drainRequested);
+    } catch (error) {
+      console.error("Job queue error:", error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async fill(): Promise<void> {
+    while (this.running.size < this.concurrency) {
+      // A video's next job waits for a cancelled one to stop, as that removes its files
+      const busyVideos = new Set(Array.from(this.running.values(), (running) => running.videoId));
+      const queued = await this.storage.getJobsByStatus(["queued"]);
+      const next = queued.find((job) =>
+        !this.running.has(job.id) && !this.backingOff.has(job.id) && !busyVideos.has(job.videoId)
+      );
+      if (!next) break;
+
+      const job = await this.storage.updateJob(next.id, {
+        status: "running",
+        attempts: next.attempts + 1,
+        startedAt: new Date(),
+      });
+      const controller = new AbortController();
+      this.running.set(job.id, { videoId: job.videoId, controller });
+      this.run(job, controller.signal);
+    }
+  }
+
+  private async run(job: Job, signal: AbortSignal): Promise<void> {
+    try {
+      const video = await this.storage.getVideo(job.videoId);
+      if (!video) {
+        throw new Error(`Video with ID ${job.videoId} not found`);
+      }
+
+      // A job that finished before the abort took effect still completed
+      const outcome = await this.handler(job, video, signal);
+      await this.storage.updateJob(job.id, {
+        status: outcome,
+        error: null,
+        finishedAt: new Date(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      try {
+        if (!signal.aborted && job.attempts < job.maxAttempts) {
+          await this.retry(job, message);
+        } else {
+          const finishedJob = await this.storage.updateJob(job.id, {
+            status: signal.aborted ? "cancelled" : "failed",
+            error: message,
+            finishedAt: new Date(),
+          });
+          if (finishedJob.status === "failed") {
+            await this.reportFailed(finishedJob);
+          }
+        }
+      } catch (err) {
+        console.error("Failed to update job:", err);
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.drain();
+    }
+  }
+
+  // Queue a failed job again once its backoff has passed, a transient error being likely
+  private async retry(job: Job, error: string): Promise<void> {
+    const delay = this.retryDelay * 2 ** (job.attempts - 1);
+    console.log(`Retrying job ${job.id} for video ${job.videoId} in ${delay}ms after: ${error}`);
+    this.backingOff.add(job.id);
+    await this.storage.updateJob(job.id, { status: "queued", error, startedAt: null });
+    setTimeout(() => {
+      this.backingOff.delete(job.id);
+      this.drain();
+    }, delay).unref();
+  }
+
+  private async reportFailed(job: Job): Promise<void> {
+    await this.onFailed?.(job).catch((error) => {
+      console.error(`Failed to report failed job ${job.id}:`, error);
+    });
+  }
+}
+
+// Settings read from the environment may be missing or not numbers at all
+function atLeastOne(value: number | undefined, fallback: number): number {
+  return value !== undefined && Number.isFinite(value) ? Math.max(1, Math.floor(value)) : fallback;
+}
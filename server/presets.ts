@@ -0,0 +1,129 @@
+import path from 'path';
+import type { EncodingPresetId } from '@shared/schema';
+
+export interface EncodingPreset {
+  id: EncodingPresetId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  audioOnly: boolean;
+  // Encoders the ffmpeg build must provide for this preset
+  encoders: string[];
+  // Video filters, run after the source has been made upright and square-pixelled
+  videoFilters: string[];
+  // Output options passed to ffmpeg after the input
+  args: string[];
+}
+
+const presets: Record<EncodingPresetId, EncodingPreset> = {
+  h264: {
+    id: 'h264',
+    label: 'H.264 MP4',
+    extension: '.mp4',
+    mimeType: 'video/mp4',
+    audioOnly: false,
+    encoders: ['libx264', 'aac'],
+    videoFilters: [],
+    args: ['-c:v', 'libx264', '-c:a', 'aac', '-preset', 'fast', '-crf', '22', '-movflags', '+faststart'],
+  },
+  h265: {
+    id: 'h265',
+    label: 'H.265 MP4',
+    extension: '.mp4',
+    mimeType: 'video/mp4',
+    audioOnly: false,
+    encoders: ['libx265', 'aac'],
+    videoFilters: [],
+    // hvc1 tagging is needed for Safari and QuickTime to play HEVC in MP4
+    args: ['-c:v', 'libx265', '-tag:v', 'hvc1', '-c:a', 'aac', '-preset', 'fast', '-crf', '26', '-movflags', '+faststart'],
+  },
+  vp9: {
+    id: 'vp9',
+    label: 'VP9 WebM',
+    extension: '.webm',
+    mimeType: 'video/webm',
+    audioOnly: false,
+    encoders: ['libvpx-vp9', 'libopus'],
+    videoFilters: [],
+    args: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1', '-c:a', 'libopus'],
+  },
+  prores: {
+    id: 'prores',
+    label: 'ProRes 422 HQ MOV',
+    extension: '.mov',
+    mimeType: 'video/quicktime',
+    audioOnly: false,
+    encoders: ['prores_ks', 'pcm_s16le'],
+    videoFilters: [],
+    args: ['-c:v', 'prores_ks', '-profile:v', '3', '-pix_fmt', 'yuv422p10le', '-c:a', 'pcm_s16le'],
+  },
+  mp3: {
+    id: 'mp3',
+    label: 'MP3 audio',
+    extension: '.mp3',
+    mimeType: 'audio/mpeg',
+    audioOnly: true,
+    encoders: ['libmp3lame'],
+    videoFilters: [],
+    args: ['-vn', '-c:a', 'libmp3lame', '-q:a', '2'],
+  },
+  wav: {
+    id: 'wav',
+    label: 'WAV audio',
+    extension: '.wav',
+    mimeType: 'audio/wav',
+    audioOnly: true,
+    encoders: ['pcm_s16le'],
+    videoFilters: [],
+    args: ['-vn', '-c:a', 'pcm_s16le'],
+  },
+  proxy720: {
+    id: 'proxy720',
+    label: '720p proxy',
+    extension: '.mp4',
+    mimeType: 'video/mp4',
+    audioOnly: false,
+    encoders: ['libx264', 'aac'],
+    videoFilters: ['scale=-2:720'],
+    args: ['-c:v', 'libx264', '-c:a', 'aac', '-preset', 'veryfast', '-crf', '23', '-movflags', '+faststart'],
+  },
+  proxy1080: {
+    id: 'proxy1080',
+    label: '1080p proxy',
+    extension: '.mp4',
+    mimeType: 'video/mp4',
+    audioOnly: false,
+    encoders: ['libx264', 'aac'],
+    videoFilters: ['scale=-2:1080'],
+    args: ['-c:v', 'libx264', '-c:a', 'aac', '-preset', 'veryfast', '-crf', '23', '-movflags', '+faststart'],
+  },
+};
+
+// MIME types for the containers we write, stream or accept as uploads
+const mimeTypes: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.vtt': 'text/vtt',
+};
+
+export function getPreset(id: EncodingPresetId): EncodingPreset {
+  return presets[id];
+}
+
+export function listPresets(): EncodingPreset[] {
+  return Object.values(presets);
+}
+
+export function getMimeType(filePath: string): string {
+  return mimeTypes[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
@@ -0,0 +1,170 @@
+import type { MediaProbe, ProbeStream } from '@shared/schema';
+import { fileArg, runFfprobe } from './ffmpeg';
+
+// Subset of ffprobe's JSON output that we read
+interface RawStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  codec_long_name?: string;
+  profile?: string;
+  bit_rate?: string;
+  duration?: string;
+  width?: number;
+  height?: number;
+  r_frame_rate?: string;
+  avg_frame_rate?: string;
+  level?: number;
+  pix_fmt?: string;
+  sample_aspect_ratio?: string;
+  color_space?: string;
+  color_transfer?: string;
+  color_primaries?: string;
+  channels?: number;
+  channel_layout?: string;
+  sample_rate?: string;
+  disposition?: Record<string, number>;
+  tags?: Record<string, string>;
+  side_data_list?: { side_data_type?: string; rotation?: number }[];
+}
+
+interface RawFormat {
+  format_name?: string;
+  format_long_name?: string;
+  duration?: string;
+  start_time?: string;
+  bit_rate?: string;
+  tags?: Record<string, string>;
+}
+
+const STREAM_TYPES: ProbeStream['type'][] = ['video', 'audio', 'subtitle', 'data', 'attachment'];
+
+// Read every stream and the container details of a media file
+export async function probeMedia(filePath: string, signal?: AbortSignal): Promise<MediaProbe> {
+  const stdout = await runFfprobe(
+    ['-show_format', '-show_streams', '-of', 'json', fileArg(filePath)],
+    { signal, failureMessage: 'Failed to get video info' }
+  );
+
+  let raw: { streams?: RawStream[]; format?: RawFormat };
+  try {
+    raw = JSON.parse(stdout);
+  } catch (err) {
+    throw new Error('Failed to parse video information');
+  }
+
+  const format = raw.format ?? {};
+  const rawStreams = raw.streams ?? [];
+  const tags = format.tags ?? {};
+
+  // Some containers only record durations per stream
+  const streamDurations = rawStreams.map((stream) => toNumber(stream.duration)).filter((d): d is number => d !== undefined);
+  const durationSec = toNumber(format.duration) ?? (streamDurations.length > 0 ? Math.max(...streamDurations) : undefined);
+  const startSec = toNumber(format.start_time);
+
+  return {
+    container: format.format_name ?? 'unknown',
+    containerLongName: format.format_long_name,
+    duration: durationSec !== undefined ? Math.floor(durationSec * 1000) : undefined,
+    startTime: startSec !== undefined ? Math.round(startSec * 1000) : undefined,
+    bitRate: toNumber(format.bit_rate),
+    creationTime: tags.creation_time,
+    tags,
+    streams: rawStreams.map(toProbeStream),
+  };
+}
+
+function toProbeStream(stream: RawStream): ProbeStream {
+  const type = STREAM_TYPES.find((t) => t === stream.codec_type) ?? 'unknown';
+  const probed: ProbeStream = {
+    index: stream.index,
+    type,
+    codec: stream.codec_name ?? 'unknown',
+    codecLongName: stream.codec_long_name,
+    profile: stream.profile,
+    bitRate: toNumber(stream.bit_rate),
+    language: stream.tags?.language,
+    title: stream.tags?.title,
+    isDefault: stream.disposition?.default === 1,
+  };
+
+  if (type === 'video') {
+    Object.assign(probed, {
+      width: stream.width,
+      height: stream.height,
+      frameRate: parseRate(stream.r_frame_rate),
+      averageFrameRate: parseRate(stream.avg_frame_rate),
+      // Unknown levels are reported as -99
+      level: stream.level !== undefined && stream.level > 0 ? stream.level : undefined,
+      pixelFormat: stream.pix_fmt,
+      // "0:1" means unknown, which players treat as square
+      sampleAspectRatio: stream.sample_aspect_ratio !== '0:1' ? stream.sample_aspect_ratio : undefined,
+      colorSpace: stream.color_space,
+      colorTransfer: stream.color_transfer,
+      colorPrimaries: stream.color_primaries,
+      hdr: hdrFormat(stream),
+      rotation: rotation(stream),
+    });
+  } else if (type === 'audio') {
+    Object.assign(probed, {
+      channels: stream.channels,
+      channelLayout: stream.channel_layout,
+      sampleRate: toNumber(stream.sample_rate),
+    });
+  }
+
+  return probed;
+}
+
+// Size the frame is meant to be shown at, after rotation and non-square pixels
+export function displaySize(stream: ProbeStream): { width: number; height: number } | null {
+  if (!stream.width || !stream.height) return null;
+
+  const width = Math.round(stream.width * pixelAspect(stream));
+  const sideways = stream.rotation === 90 || stream.rotation === 270;
+  return sideways ? { width: stream.height, height: width } : { width, height: stream.height };
+}
+
+// Width of a pixel relative to its height, 1 for square pixels
+export function pixelAspect(stream: ProbeStream): number {
+  const [num, den] = (stream.sampleAspectRatio ?? '1:1').split(':').map(Number);
+  return num && den ? num / den : 1;
+}
+
+// Frames are not evenly spaced, as in screen and phone recordings. The nominal rate
+// is the finest timebase the timestamps need, so it differs from the average when frames vary
+export function isVariableFrameRate(stream: ProbeStream): boolean {
+  if (!stream.frameRate || !stream.averageFrameRate) return false;
+  return Math.abs(stream.frameRate - stream.averageFrameRate) / stream.frameRate > 0.01;
+}
+
+// ffprobe reports rates as fractions such as "30000/1001", and "0/0" when unknown
+function parseRate(rate: string | undefined): number | undefined {
+  if (!rate) return undefined;
+  const [numerator, denominator] = rate.split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+function hdrFormat(stream: RawStream): ProbeStream['hdr'] {
+  if (stream.side_data_list?.some((data) => data.side_data_type?.includes('DOVI'))) return 'Dolby Vision';
+  if (stream.color_transfer === 'smpte2084') return 'HDR10';
+  if (stream.color_transfer === 'arib-std-b67') return 'HLG';
+  return undefined;
+}
+
+// Phones record orientation either as a display matrix or, in older files, a rotate tag
+function rotation(stream: RawStream): number | undefined {
+  const matrix = stream.side_data_list?.find((data) => data.rotation !== undefined);
+  const degrees = matrix?.rotation ?? toNumber(stream.tags?.rotate);
+  if (degrees === undefined) return undefined;
+  // Normalise to 0-359 clockwise; the display matrix is counter-clockwise
+  const clockwise = matrix ? -degrees : degrees;
+  return ((clockwise % 360) + 360) % 360;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
@@ -6,23 +6,41 @@ import path from "path";
 import fs from "fs";
 import { v4 as uuidv4 } from "uuid";
 import { WebSocketServer } from "ws";
-import { processVideo } from "./videoProcessor";
+import { processVideo, rebuildClips, extractClip, getVideoInfo, normalizeOutput, type ClipResult } from "./videoProcessor";
+import { JobQueue, type JobOutcome } from "./jobQueue";
+import { getMimeType, getPreset, listPresets, type EncodingPreset } from "./presets";
+import { extractionPool } from "./workerPool";
+import { getCapabilities, isPresetSupported, logCapabilities } from "./capabilities";
+import { getSceneDetector } from "./sceneDetectors";
+import { serveMedia } from "./serveMedia";
+import { hasHlsPackage, isHlsAvailable, requestHlsPackage, resolveHlsFile } from "./hls";
+import { sourceSpriteFiles, spriteFilesFor, type SpriteFiles } from "./sprites";
+import { candidatePath } from "./thumbnails";
+import { negotiateThumbnailFormat, parseThumbnailSize, removeThumbnailVariants, thumbnailVariant, type ThumbnailSize } from "./thumbnailVariants";
+import { formatFrameTimecode, formatTimecode, formatTimestamp } from "@shared/format";
 import archiver from "archiver";
-import { insertVideoSchema, insertClipSchema, processingStatusSchema } from "@shared/schema";
+import { insertVideoSchema, insertClipSchema, processingStatusSchema, processingOptionsSchema, detectorComparisonRequestSchema, clipEditRequestSchema, posterRequestSchema, encodingPresetSchema, THUMBNAIL_HEIGHTS, THUMBNAIL_WIDTHS, type Clip, type ClipInfo, type DetectorComparisonRun, type EditedScene, type EncodingPresetId, type InsertVideo, type Job, type Video } from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 // Setup uploads directory
 const uploadsDir = path.join(process.cwd(), "uploads");
 const clipsDir = path.join(uploadsDir, "clips");
 const thumbnailsDir = path.join(uploadsDir, "thumbnails");
+const exportsDir = path.join(uploadsDir, "exports");
+const hlsDir = path.join(uploadsDir, "hls");
+const thumbnailCacheDir = path.join(uploadsDir, "thumbnail-cache");
 
 // Create directories if they don't exist
-[uploadsDir, clipsDir, thumbnailsDir].forEach((dir) => {
+[uploadsDir, clipsDir, thumbnailsDir, exportsDir, hlsDir, thumbnailCacheDir].forEach((dir) => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 });
 
+// Thumbnails are only resized to a few sizes, so the cache stays small
+const thumbnailSizeMessage = `Thumbnail width must be one of ${THUMBNAIL_WIDTHS.join(", ")} and height one of ${THUMBNAIL_HEIGHTS.join(", ")}`;
+
 // Configure multer for file uploads
 const multerStorage = multer.diskStorage({
   destination: (_req, _file, cb) => {
@@ -78,6 +96,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
   
+  // Mark a video as failed and tell its viewers. Never throws, so callers can
+  // always go on to settle the job
+  const reportFailure = async (videoId: number, message: string) => {
+    try {
+      await dataStorage.updateVideoStatus(videoId, "error");
+    } catch (error) {
+      console.error("Failed to record processing error:", error);
+    }
+    broadcastStatus(videoId, {
+      status: "error" as const,
+      error: message,
+    });
+  };
+  
+  // Run a queued processing job, reporting progress over the WebSocket
+  const runProcessingJob = async (job: Job, video: Video, signal: AbortSignal) => {
+    if (job.scenes) {
+      return runClipEditJob(job, video, job.scenes, signal);
+    }
+    
+    const videoId = video.id;
+    const sceneScores = await dataStorage.getSceneScores(videoId);
+    const existingClips = await dataStorage.getClipsByVideo(videoId);
+    
+    return new Promise<JobOutcome>((resolve, reject) => processVideo(video, {
+      outputDir: clipsDir,
+      thumbnailDir: thumbnailsDir,
+      settings: processingOptionsSchema.parse(job.options ?? {}),
+      sceneScores,
+      existingClips,
+      signal,
+      onSceneScores: async (curve) => {
+        await dataStorage.saveSceneScores({ videoId, ...curve });
+      },
+      onProgress: (progress, stage, timing) => {
+        const status = {
+          status: "processing" as const,
+          progress,
+          stage,
+          ...timing,
+        };
+        broadcastStatus(videoId, status);
+      },
+      onComplete: async (results) => {
+        try {
+          const clips = await saveClips(videoId, results.clips);
+          
+          // Update video metadata
+          await dataStorage.updateVideo(videoId, {
+            duration: results.duration,
+            format: results.format,
+            resolution: results.resolution,
+            probe: results.probe,
+            processingStatus: "completed",
+          });
+          
+          // Send completion status
+          const videoInfo = await dataStorage.getVideoInfo(videoId);
+          const status = {
+            status: "completed" as const,
+            progress: 100,
+            clips,
+            videoInfo: {
+              ...videoInfo,
+              sceneCount: clips.length,
+            },
+          };
+          broadcastStatus(videoId, status);
+          resolve("completed");
+        } catch (error) {
+          console.error("Error saving clips:", error);
+          reject(new Error("Failed to save clip data", { cause: error }));
+        }
+      },
+      // The queue retries failed jobs, and reports the failure once it gives up
+      onError: (error) => {
+        console.error("Processing error:", error);
+        reject(error);
+      },
+      onCancel: async () => {
+        try {
+          // The video was queued again while this run stopped, so it is not cancelled
+          const videoJobs = await dataStorage.getJobsByVideo(videoId);
+          if (videoJobs.some((later) => later.id > job.id && later.status === "queued")) {
+            return resolve("cancelled");
+          }
+          
+          await dataStorage.updateVideoStatus(videoId, "cancelled");
+          broadcastStatus(videoId, {
+            status: "cancelled" as const,
+            stage: "Processing cancelled",
+          });
+          resolve("cancelled");
+        } catch (error) {
+          reject(error);
+        }
+      },
+    }));
+  };
+  
+  // Re-extract a video's clips after their boundaries were edited by hand. The video
+  // keeps its status throughout, since its clips stay usable until replaced
+  const runClipEditJob = async (job: Job, video: Video, scenes: EditedScene[], signal: AbortSignal): Promise<JobOutcome> => {
+    const settings = processingOptionsSchema.parse(job.options ?? {});
+    const existingClips = await dataStorage.getClipsByVideo(video.id);
+    
+    let results: ClipResult[];
+    try {
+      results = await rebuildClips(video, scenes, {
+        outputDir: clipsDir,
+        thumbnailDir: thumbnailsDir,
+        extractionMode: settings.extractionMode,
+        preset: settings.preset,
+        existingClips,
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(`Clip edit of video ${video.id} cancelled`);
+        return "cancelled";
+      }
+      console.error("Clip edit error:", error);
+      throw error;
+    }
+    const clips = await saveClips(video.id, results);
+    
+    // Let open pages pick up the new clips
+    const videoInfo = await dataStorage.getVideoInfo(video.id);
+    broadcastStatus(video.id, {
+      status: "completed" as const,
+      progress: 100,
+      clips,
+      videoInfo: {
+        ...videoInfo,
+        sceneCount: clips.length,
+      },
+    });
+    return "completed";
+  };
+  
+  const jobQueue = new JobQueue(dataStorage, runProcessingJob, {
+    concurrency: parseInt(process.env.PROCESSING_CONCURRENCY || "1", 10),
+    maxAttempts: parseInt(process.env.PROCESSING_MAX_ATTEMPTS || "3", 10),
+    retryDelay: parseInt(process.env.PROCESSING_RETRY_DELAY || "5000", 10),
+    // A failed edit leaves the clips as they were, so only detection fails the video
+    onFailed: async (job) => {
+      if (!job.scenes) {
+        await reportFailure(job.videoId, job.error || "Processing failed");
+      }
+    },
+  });
+  
+  // Queue re-extraction of a video's clips with edited boundaries, using the settings of its last run
+  const queueClipEdit = async (video: Video, scenes: EditedScene[]) => {
+    const completedJobs = (await dataStorage.getJobsByVideo(video.id)).filter((job) => job.status === "completed");
+    const settings = processingOptionsSchema.parse(completedJobs[completedJobs.length - 1]?.options ?? {});
+    const job = await jobQueue.enqueue(video.id, settings, scenes);
+    return { message: "Clip edit queued", jobId: job.id };
+  };
+  
+  // Look up a clip, its video and its siblings for an edit, or explain why it cannot be edited
+  const loadClipForEdit = async (clipId: number) => {
+    const clip = await dataStorage.getClip(clipId);
+    if (!clip) {
+      return { error: { status: 404, message: "Clip not found" } } as const;
+    }
+    
+    const video = await dataStorage.getVideo(clip.videoId);
+    if (!video) {
+      return { error: { status: 404, message: "Video not found" } } as const;
+    }
+    const activeJob = await jobQueue.getActiveJob(video.id);
+    if (activeJob?.scenes) {
+      return { error: { status: 409, message: "Clips of this video are already being edited" } } as const;
+    }
+    if (video.processingStatus !== "completed" || activeJob) {
+      return { error: { status: 409, message: "Clips can only be edited once processing has finished" } } as const;
+    }
+    
+    const clips = await dataStorage.getClipsByVideo(video.id);
+    const index = clips.findIndex((sibling) => sibling.id === clip.id);
+    const scenes = clips.map(({ startTime, endTime, detectedStartTime, detectedEndTime }) => ({
+      startTime,
+      endTime,
+      detectedStartTime,
+      detectedEndTime,
+    }));
+    return { error: null, clip, video, clips, index, scenes };
+  };
+  
+  jobQueue.start().catch((error) => {
+    console.error("Failed to start job queue:", error);
+  });
+  
+  // Check the ffmpeg build up front so a broken install shows in the logs straight away
+  logCapabilities().catch((error) => {
+    console.error("Failed to check ffmpeg:", error);
+  });
+  
   // API Routes
   
   // Upload video endpoint
@@ -89,12 +306,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { filename, originalname, path: filePath, size } = req.file;
       
+      // Read the file's details now so they show before processing. A file that cannot
+      // be read is still kept, and processing reports what is wrong with it
+      let details: Pick<InsertVideo, "duration" | "format" | "resolution" | "probe"> = {};
+      try {
+        const { duration, format, resolution, probe } = await getVideoInfo(filePath);
+        details = { duration, format, resolution, probe };
+      } catch (error) {
+        console.error(`Failed to probe upload ${filename}:`, error);
+      }
+      
       // Store video info in database
       const videoData = {
         filename,
         originalFilename: originalname,
         filePath,
         fileSize: size,
+        ...details,
         processingStatus: "pending",
       };
       
@@ -124,95 +352,241 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Video not found" });
       }
       
+      const parsedOptions = processingOptionsSchema.safeParse(req.body ?? {});
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: fromZodError(parsedOptions.error).message });
+      }
+      
+      const { extractionMode, preset } = parsedOptions.data;
+      if (extractionMode === "reencode" && !(await isPresetSupported(preset))) {
+        return res.status(400).json({ message: "The installed ffmpeg cannot encode this preset" });
+      }
+      
+      const activeJob = await jobQueue.getActiveJob(videoId);
+      if (activeJob) {
+        const message = activeJob.scenes ? "Clips of this video are being edited" : "Video is already being processed";
+        return res.status(409).json({ message });
+      }
+      
       // Update status to processing
       await dataStorage.updateVideoStatus(videoId, "processing");
       
-      // Process video in background
-      processVideo(video, {
-        outputDir: clipsDir,
-        thumbnailDir: thumbnailsDir,
-        onProgress: (progress, stage) => {
-          const status = {
-            status: "processing" as const,
-            progress,
-            stage,
-          };
-          broadcastStatus(videoId, status);
-        },
-        onComplete: async (results) => {
+      // Queue the video for background processing
+      const job = await jobQueue.enqueue(videoId, parsedOptions.data);
+      broadcastStatus(videoId, {
+        status: "processing" as const,
+        progress: 0,
+        stage: "Waiting in queue...",
+      });
+      
+      res.json({ message: "Processing queued", jobId: job.id });
+    } catch (error) {
+      console.error("Process error:", error);
+      res.status(500).json({ message: "Error starting processing" });
+    }
+  });
+  
+  // Cancel queued or running processing
+  app.post("/api/videos/:id/cancel", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      
+      const activeJob = await jobQueue.getActiveJob(videoId);
+      const cancelled = activeJob ? await jobQueue.cancel(activeJob.id) : null;
+      if (!cancelled) {
+        return res.status(409).json({ message: "Video is not being processed" });
+      }
+      
+      // Running jobs report the cancellation themselves once ffmpeg has stopped, but
+      // no longer count as active, so the video can be processed again right away.
+      // A cancelled edit leaves the video as it was
+      if (cancelled === "queued" && !activeJob?.scenes) {
+        await dataStorage.updateVideoStatus(videoId, "cancelled");
+        broadcastStatus(videoId, {
+          status: "cancelled" as const,
+          stage: "Processing cancelled",
+        });
+      }
+      
+      res.json({ message: "Processing cancelled" });
+    } catch (error) {
+      console.error("Cancel error:", error);
+      res.status(500).json({ message: "Error cancelling processing" });
+    }
+  });
+  
+  // Get how a queued job is getting on, so clients can wait for it to finish
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id, 10);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid job ID" });
+      }
+      
+      const job = await dataStorage.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.json({ id: job.id, videoId: job.videoId, status: job.status, error: job.error });
+    } catch (error) {
+      console.error("Job status error:", error);
+      res.status(500).json({ message: "Error getting job status" });
+    }
+  });
+  
+  // Get the recorded scene score curve for a video
+  app.get("/api/videos/:id/scene-scores", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      
+      const scores = await dataStorage.getSceneScores(videoId);
+      if (!scores) {
+        return res.status(404).json({ message: "No scene scores recorded for this video" });
+      }
+      
+      res.json({
+        rangeStart: scores.rangeStart,
+        rangeEnd: scores.rangeEnd,
+        times: scores.times,
+        scores: scores.scores,
+      });
+    } catch (error) {
+      console.error("Scene scores error:", error);
+      res.status(500).json({ message: "Error getting scene scores" });
+    }
+  });
+  
+  // Detector comparisons by id, kept for a while after they finish so the client can
+  // collect the results
+  const comparisons = new Map<string, { videoId: number; run: DetectorComparisonRun; controller: AbortController }>();
+  const COMPARISON_RETENTION = 10 * 60 * 1000;
+  
+  // Time each detector in turn, one at a time through the extraction pool so comparisons
+  // wait behind processing rather than compete with it and skew each other's timings
+  const runComparison = async (
+    video: Video,
+    run: DetectorComparisonRun,
+    request: z.infer<typeof detectorComparisonRequestSchema>,
+    signal: AbortSignal
+  ) => {
+    const { detectors, startTime, endTime, ...settings } = request;
+    const duration = video.duration ?? 0;
+    const hasAudio = video.probe?.streams.some((stream) => stream.type === "audio") ?? true;
+    const range = {
+      start: Math.min(startTime ?? 0, duration),
+      end: Math.min(endTime ?? duration, duration),
+    };
+    
+    for (const name of detectors) {
+      try {
+        const result = await extractionPool.run(video.id, async () => {
+          const started = Date.now();
           try {
-            // Save clips to database
-            const clips = [];
-            for (let i = 0; i < results.clips.length; i++) {
-              const clip = results.clips[i];
-              const clipData = {
-                videoId,
-                filename: path.basename(clip.filePath),
-                filePath: clip.filePath,
-                thumbnailPath: clip.thumbnailPath,
-                startTime: clip.startTime,
-                endTime: clip.endTime,
-                duration: clip.endTime - clip.startTime,
-                sceneIndex: i,
-              };
-              
-              const savedClip = await dataStorage.createClip(clipData);
-              clips.push({
-                id: savedClip.id,
-                videoId: savedClip.videoId,
-                sceneIndex: savedClip.sceneIndex,
-                startTime: savedClip.startTime,
-                endTime: savedClip.endTime,
-                duration: savedClip.duration,
-                timestamp: formatTimestamp(savedClip.startTime, savedClip.endTime),
-                url: `/api/clips/${savedClip.id}/stream`,
-                thumbnailUrl: `/api/clips/${savedClip.id}/thumbnail`,
-              });
+            const detector = getSceneDetector(name);
+            if (detector.usesAudio && !hasAudio) {
+              throw new Error("The file has no audio track");
             }
-            
-            // Update video metadata
-            await dataStorage.updateVideo(videoId, {
-              duration: formatDuration(results.duration),
-              format: results.format,
-              resolution: results.resolution,
-              processingStatus: "completed",
-            });
-            
-            // Send completion status
-            const videoInfo = await dataStorage.getVideoInfo(videoId);
-            const status = {
-              status: "completed" as const,
-              progress: 100,
-              clips,
-              videoInfo: {
-                ...videoInfo,
-                sceneCount: clips.length,
-              },
-            };
-            broadcastStatus(videoId, status);
+            const cuts = await detector.detect(video.filePath, range, settings, signal);
+            return { detector: name, cuts, elapsed: Date.now() - started };
           } catch (error) {
-            console.error("Error saving clips:", error);
-            await dataStorage.updateVideoStatus(videoId, "error");
-            broadcastStatus(videoId, {
-              status: "error" as const,
-              error: "Failed to save clip data",
-            });
+            if (signal.aborted) throw error;
+            return {
+              detector: name,
+              cuts: [],
+              elapsed: Date.now() - started,
+              error: error instanceof Error ? error.message : String(error),
+            };
           }
-        },
-        onError: async (error) => {
-          console.error("Processing error:", error);
-          await dataStorage.updateVideoStatus(videoId, "error");
-          broadcastStatus(videoId, {
-            status: "error" as const,
-            error: error.message,
-          });
-        },
+        }, signal);
+        run.results.push(result);
+      } catch (error) {
+        // Only cancelling rejects
+        break;
+      }
+    }
+    
+    run.status = signal.aborted ? "cancelled" : "completed";
+    setTimeout(() => comparisons.delete(run.id), COMPARISON_RETENTION).unref();
+  };
+  
+  // Find a video's comparison, or answer the request when there is none
+  const findComparison = (req: Request, res: Response) => {
+    const videoId = parseInt(req.params.id, 10);
+    if (isNaN(videoId)) {
+      res.status(400).json({ message: "Invalid video ID" });
+      return undefined;
+    }
+    
+    const comparison = comparisons.get(req.params.comparisonId);
+    if (!comparison || comparison.videoId !== videoId) {
+      res.status(404).json({ message: "Comparison not found" });
+      return undefined;
+    }
+    return comparison;
+  };
+  
+  // Start running several scene detectors over the same range so their cuts can be
+  // compared. The work goes on in the background; poll the returned comparison for results
+  app.post("/api/videos/:id/compare-detectors", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      
+      const parsedRequest = detectorComparisonRequestSchema.safeParse(req.body ?? {});
+      if (!parsedRequest.success) {
+        return res.status(400).json({ message: fromZodError(parsedRequest.error).message });
+      }
+      
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      if (video.duration === null) {
+        return res.status(409).json({ message: "Video has not been analyzed yet" });
+      }
+      
+      const run: DetectorComparisonRun = { id: uuidv4(), status: "running", results: [] };
+      const controller = new AbortController();
+      comparisons.set(run.id, { videoId, run, controller });
+      runComparison(video, run, parsedRequest.data, controller.signal).catch((error) => {
+        console.error("Compare detectors error:", error);
       });
       
-      res.json({ message: "Processing started" });
+      res.status(202).json(run);
     } catch (error) {
-      console.error("Process error:", error);
-      res.status(500).json({ message: "Error starting processing" });
+      console.error("Compare detectors error:", error);
+      res.status(500).json({ message: "Error comparing detectors" });
+    }
+  });
+  
+  // Get a detector comparison, with the results of the detectors finished so far
+  app.get("/api/videos/:id/compare-detectors/:comparisonId", (req, res) => {
+    const comparison = findComparison(req, res);
+    if (comparison) {
+      res.json(comparison.run);
+    }
+  });
+  
+  // Stop a detector comparison, keeping the results it already has
+  app.delete("/api/videos/:id/compare-detectors/:comparisonId", (req, res) => {
+    const comparison = findComparison(req, res);
+    if (comparison) {
+      comparison.controller.abort();
+      res.json(comparison.run);
     }
   });
   
@@ -230,17 +604,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const clips = await dataStorage.getClipsByVideo(videoId);
-      const formattedClips = clips.map(clip => ({
-        id: clip.id,
-        videoId: clip.videoId,
-        sceneIndex: clip.sceneIndex,
-        startTime: clip.startTime,
-        endTime: clip.endTime,
-        duration: clip.duration,
-        timestamp: formatTimestamp(clip.startTime, clip.endTime),
-        url: `/api/clips/${clip.id}/stream`,
-        thumbnailUrl: `/api/clips/${clip.id}/thumbnail`,
-      }));
+      const formattedClips = clips.map(toClipInfo);
       
       const videoInfo = await dataStorage.getVideoInfo(videoId);
       
@@ -279,40 +643,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Clip file not found" });
       }
       
-      const stat = fs.statSync(filePath);
-      const fileSize = stat.size;
-      const range = req.headers.range;
+      await serveMedia(req, res, filePath);
+    } catch (error) {
+      console.error("Stream error:", error);
+      res.status(500).json({ message: "Error streaming clip" });
+    }
+  });
+  
+  // Stream the source video, so the timeline can play across clip boundaries
+  app.get("/api/videos/:id/stream", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
       
-      if (range) {
-        const parts = range.replace(/bytes=/, "").split("-");
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-        
-        const chunksize = (end - start) + 1;
-        const file = fs.createReadStream(filePath, { start, end });
-        
-        res.writeHead(206, {
-          "Content-Range": `bytes ${start}-${end}/${fileSize}`,
-          "Accept-Ranges": "bytes",
-          "Content-Length": chunksize,
-          "Content-Type": "video/mp4",
-        });
-        
-        file.pipe(res);
-      } else {
-        res.writeHead(200, {
-          "Content-Length": fileSize,
-          "Content-Type": "video/mp4",
-        });
-        
-        fs.createReadStream(filePath).pipe(res);
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      
+      const filePath = video.filePath;
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "Video file not found" });
       }
+      
+      await serveMedia(req, res, filePath);
     } catch (error) {
-      console.error("Stream error:", error);
+      console.error("Video stream error:", error);
+      res.status(500).json({ message: "Error streaming video" });
+    }
+  });
+  
+  // Serve a file from an HLS package, starting the packaging on first request. Until the
+  // package is ready the player is told to come back later and plays the progressive file
+  const serveHls = async (
+    req: Request,
+    res: Response,
+    outputDir: string,
+    source: Parameters<typeof requestHlsPackage>[1]
+  ) => {
+    if (!(await isHlsAvailable())) {
+      return res.status(404).json({ message: "HLS streaming is not enabled" });
+    }
+    
+    const filePath = resolveHlsFile(outputDir, req.params[0]);
+    if (!filePath) {
+      return res.status(400).json({ message: "Invalid HLS file" });
+    }
+    
+    if (!hasHlsPackage(outputDir)) {
+      requestHlsPackage(outputDir, source);
+      res.setHeader("Retry-After", "30");
+      return res.status(503).json({ message: "HLS stream is being prepared" });
+    }
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ message: "HLS file not found" });
+    }
+    
+    await serveMedia(req, res, filePath);
+  };
+  
+  // Stream the source video over HLS
+  app.get("/api/videos/:id/hls/source/*", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      
+      await serveHls(req, res, sourceHlsDir(videoId), { filePath: video.filePath, probe: video.probe });
+    } catch (error) {
+      console.error("HLS stream error:", error);
+      res.status(500).json({ message: "Error streaming video" });
+    }
+  });
+  
+  // Stream a clip over HLS, packaged from the source so no quality is lost to re-encoding twice
+  app.get("/api/videos/:id/hls/clips/:clipId/*", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      const clipId = parseInt(req.params.clipId, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      const clip = await dataStorage.getClip(clipId);
+      if (!clip || clip.videoId !== videoId) {
+        return res.status(404).json({ message: "Clip not found" });
+      }
+      
+      await serveHls(req, res, clipHlsDir(clip), {
+        filePath: video.filePath,
+        probe: video.probe,
+        startTime: clip.startTime,
+        endTime: clip.endTime,
+      });
+    } catch (error) {
+      console.error("HLS clip stream error:", error);
       res.status(500).json({ message: "Error streaming clip" });
     }
   });
   
+  // Merge a clip with the one after it
+  app.post("/api/clips/:id/merge-next", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const edit = await loadClipForEdit(clipId);
+      if (edit.error) {
+        return res.status(edit.error.status).json({ message: edit.error.message });
+      }
+      
+      const { video, index, scenes } = edit;
+      if (index === scenes.length - 1) {
+        return res.status(400).json({ message: "The last clip has no clip after it to merge with" });
+      }
+      
+      scenes.splice(index, 2, {
+        startTime: scenes[index].startTime,
+        endTime: scenes[index + 1].endTime,
+        detectedStartTime: null,
+        detectedEndTime: null,
+      });
+      
+      res.json(await queueClipEdit(video, scenes));
+    } catch (error) {
+      console.error("Merge clips error:", error);
+      res.status(500).json({ message: "Error merging clips" });
+    }
+  });
+  
+  // Split a clip in two at a time within it
+  app.post("/api/clips/:id/split", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const parsedRequest = clipEditRequestSchema.safeParse(req.body ?? {});
+      if (!parsedRequest.success) {
+        return res.status(400).json({ message: fromZodError(parsedRequest.error).message });
+      }
+      
+      const edit = await loadClipForEdit(clipId);
+      if (edit.error) {
+        return res.status(edit.error.status).json({ message: edit.error.message });
+      }
+      
+      const { video, clip, index, scenes } = edit;
+      const { time } = parsedRequest.data;
+      if (time <= clip.startTime || time >= clip.endTime) {
+        return res.status(400).json({ message: "The split point must be inside the clip" });
+      }
+      
+      scenes.splice(index, 1,
+        { startTime: clip.startTime, endTime: time, detectedStartTime: null, detectedEndTime: null },
+        { startTime: time, endTime: clip.endTime, detectedStartTime: null, detectedEndTime: null },
+      );
+      
+      res.json(await queueClipEdit(video, scenes));
+    } catch (error) {
+      console.error("Split clip error:", error);
+      res.status(500).json({ message: "Error splitting clip" });
+    }
+  });
+  
+  // Move the boundary between a clip and the one after it
+  app.post("/api/clips/:id/boundary", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const parsedRequest = clipEditRequestSchema.safeParse(req.body ?? {});
+      if (!parsedRequest.success) {
+        return res.status(400).json({ message: fromZodError(parsedRequest.error).message });
+      }
+      
+      const edit = await loadClipForEdit(clipId);
+      if (edit.error) {
+        return res.status(edit.error.status).json({ message: edit.error.message });
+      }
+      
+      const { video, index, scenes } = edit;
+      if (index === scenes.length - 1) {
+        return res.status(400).json({ message: "The last clip has no boundary after it" });
+      }
+      
+      const { time } = parsedRequest.data;
+      const current = scenes[index];
+      const next = scenes[index + 1];
+      if (time <= current.startTime || time >= next.endTime) {
+        return res.status(400).json({ message: "The boundary must stay between the start of this clip and the end of the next" });
+      }
+      
+      scenes.splice(index, 2,
+        { startTime: current.startTime, endTime: time, detectedStartTime: null, detectedEndTime: null },
+        { startTime: time, endTime: next.endTime, detectedStartTime: null, detectedEndTime: null },
+      );
+      
+      res.json(await queueClipEdit(video, scenes));
+    } catch (error) {
+      console.error("Move boundary error:", error);
+      res.status(500).json({ message: "Error moving clip boundary" });
+    }
+  });
+  
   // Get clip thumbnail
   app.get("/api/clips/:id/thumbnail", async (req, res) => {
     try {
@@ -321,6 +875,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid clip ID" });
       }
       
+      const size = parseThumbnailSize(req.query.w, req.query.h);
+      if (!size) {
+        return res.status(400).json({ message: thumbnailSizeMessage });
+      }
+      
       const clip = await dataStorage.getClip(clipId);
       if (!clip) {
         return res.status(404).json({ message: "Clip not found" });
@@ -331,14 +890,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Thumbnail not found" });
       }
       
-      res.sendFile(thumbnailPath);
+      await serveThumbnail(req, res, thumbnailPath, size);
     } catch (error) {
       console.error("Thumbnail error:", error);
       res.status(500).json({ message: "Error getting thumbnail" });
     }
   });
   
-  // Download a clip
+  // Get one of the frames considered for a clip's thumbnail
+  app.get("/api/clips/:id/poster-candidates/:index", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      const index = parseInt(req.params.index, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      if (isNaN(index)) {
+        return res.status(400).json({ message: "Invalid candidate index" });
+      }
+      
+      const size = parseThumbnailSize(req.query.w, req.query.h);
+      if (!size) {
+        return res.status(400).json({ message: thumbnailSizeMessage });
+      }
+      
+      const clip = await dataStorage.getClip(clipId);
+      if (!clip) {
+        return res.status(404).json({ message: "Clip not found" });
+      }
+      
+      const candidateFile = candidatePath(clip.thumbnailPath, index);
+      if (index >= (clip.thumbnailCandidates?.length ?? 0) || !fs.existsSync(candidateFile)) {
+        return res.status(404).json({ message: "Thumbnail candidate not found" });
+      }
+      
+      await serveThumbnail(req, res, candidateFile, size);
+    } catch (error) {
+      console.error("Thumbnail candidate error:", error);
+      res.status(500).json({ message: "Error getting thumbnail candidate" });
+    }
+  });
+  
+  // Use another candidate frame as a clip's thumbnail
+  app.put("/api/clips/:id/poster", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const parsedRequest = posterRequestSchema.safeParse(req.body ?? {});
+      if (!parsedRequest.success) {
+        return res.status(400).json({ message: fromZodError(parsedRequest.error).message });
+      }
+      
+      const clip = await dataStorage.getClip(clipId);
+      if (!clip) {
+        return res.status(404).json({ message: "Clip not found" });
+      }
+      
+      const { index } = parsedRequest.data;
+      const candidateFile = candidatePath(clip.thumbnailPath, index);
+      if (index >= (clip.thumbnailCandidates?.length ?? 0) || !fs.existsSync(candidateFile)) {
+        return res.status(404).json({ message: "Thumbnail candidate not found" });
+      }
+      
+      await fs.promises.copyFile(candidateFile, clip.thumbnailPath);
+      const updatedClip = await dataStorage.updateClip(clipId, { posterIndex: index });
+      res.json(toClipInfo(updatedClip));
+    } catch (error) {
+      console.error("Set poster error:", error);
+      res.status(500).json({ message: "Error setting clip thumbnail" });
+    }
+  });
+  
+  // Get a clip's sprite sheet or the WebVTT track pointing into it
+  app.get("/api/clips/:id/:file(sprite\\.jpg|thumbnails\\.vtt)", async (req, res) => {
+    try {
+      const clipId = parseInt(req.params.id, 10);
+      if (isNaN(clipId)) {
+        return res.status(400).json({ message: "Invalid clip ID" });
+      }
+      
+      const clip = await dataStorage.getClip(clipId);
+      if (!clip) {
+        return res.status(404).json({ message: "Clip not found" });
+      }
+      
+      await serveSpriteFile(req, res, spriteFilesFor(clip.thumbnailPath));
+    } catch (error) {
+      console.error("Clip sprite error:", error);
+      res.status(500).json({ message: "Error getting sprite sheet" });
+    }
+  });
+  
+  // Get the sprite sheet of the whole source video or its WebVTT track
+  app.get("/api/videos/:id/:file(sprite\\.jpg|thumbnails\\.vtt)", async (req, res) => {
+    try {
+      const videoId = parseInt(req.params.id, 10);
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      
+      const video = await dataStorage.getVideo(videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      
+      await serveSpriteFile(req, res, sourceSpriteFiles(thumbnailsDir, video.filename));
+    } catch (error) {
+      console.error("Video sprite error:", error);
+      res.status(500).json({ message: "Error getting sprite sheet" });
+    }
+  });
+  
+  // Report the ffmpeg build and which presets it can encode
+  app.get("/api/system/capabilities", async (_req, res) => {
+    try {
+      res.json(await getCapabilities());
+    } catch (error) {
+      console.error("Capabilities error:", error);
+      res.status(500).json({ message: "Error checking ffmpeg capabilities" });
+    }
+  });
+  
+  // List the encoding presets clips can be exported with
+  app.get("/api/presets", (_req, res) => {
+    res.json(listPresets().map(({ id, label, extension, mimeType, audioOnly }) => ({
+      id,
+      label,
+      extension,
+      mimeType,
+      audioOnly,
+    })));
+  });
+  
+  // Download a clip, optionally converted with another preset
   app.get("/api/clips/:id/download", async (req, res) => {
     try {
       const clipId = parseInt(req.params.id, 10);
@@ -346,6 +1033,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid clip ID" });
       }
       
+      const parsedPreset = encodingPresetSchema.optional().safeParse(req.query.preset);
+      if (!parsedPreset.success) {
+        return res.status(400).json({ message: "Invalid preset" });
+      }
+      if (parsedPreset.data && !(await isPresetSupported(parsedPreset.data))) {
+        return res.status(400).json({ message: "The installed ffmpeg cannot encode this preset" });
+      }
+      
       const clip = await dataStorage.getClip(clipId);
       if (!clip) {
         return res.status(404).json({ message: "Clip not found" });
@@ -361,19 +1056,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Video not found" });
       }
       
+      const exportPath = await exportClip(video, clip, parsedPreset.data);
+      
       // Generate a friendly filename
       const originalName = path.parse(video.originalFilename).name;
-      const extension = path.extname(clip.filename);
+      const extension = path.extname(exportPath);
       const downloadName = `${originalName}_scene_${clip.sceneIndex + 1}${extension}`;
       
-      res.download(filePath, downloadName);
+      res.download(exportPath, downloadName);
     } catch (error) {
       console.error("Download error:", error);
       res.status(500).json({ message: "Error downloading clip" });
     }
   });
   
-  // Download all clips as a zip
+  // Download all clips as a zip, optionally converted with another preset
   app.get("/api/videos/:id/download-clips", async (req, res) => {
     try {
       const videoId = parseInt(req.params.id, 10);
@@ -381,6 +1078,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid video ID" });
       }
       
+      const parsedPreset = encodingPresetSchema.optional().safeParse(req.query.preset);
+      if (!parsedPreset.success) {
+        return res.status(400).json({ message: "Invalid preset" });
+      }
+      if (parsedPreset.data && !(await isPresetSupported(parsedPreset.data))) {
+        return res.status(400).json({ message: "The installed ffmpeg cannot encode this preset" });
+      }
+      
       const video = await dataStorage.getVideo(videoId);
       if (!video) {
         return res.status(404).json({ message: "Video not found" });
@@ -391,6 +1096,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No clips found for this video" });
       }
       
+      // Convert everything up front so a failed export can still be reported
+      const exportPaths: string[] = [];
+      for (const clip of clips) {
+        exportPaths.push(await exportClip(video, clip, parsedPreset.data));
+      }
+      
       // Setup zip file
       res.attachment(`${path.parse(video.originalFilename).name}_scenes.zip`);
       
@@ -406,13 +1117,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       archive.pipe(res);
       
       // Add each clip to the archive
-      for (const clip of clips) {
+      clips.forEach((clip, i) => {
         const originalName = path.parse(video.originalFilename).name;
-        const extension = path.extname(clip.filename);
+        const extension = path.extname(exportPaths[i]);
         const filename = `${originalName}_scene_${clip.sceneIndex + 1}${extension}`;
         
-        archive.file(clip.filePath, { name: filename });
-      }
+        archive.file(exportPaths[i], { name: filename });
+      });
       
       // Finalize archive
       await archive.finalize();
@@ -425,20 +1136,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
   return httpServer;
 }
 
-// Helper functions for formatting timestamps
-function formatDuration(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  
-  if (hours > 0) {
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-  } else {
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+// Replace a video's clips with new results, stored indexed in order, then remove the
+// files that were not reused. Unchanged clips keep their ids
+async function saveClips(videoId: number, results: ClipResult[]): Promise<ClipInfo[]> {
+  const previousClips = await dataStorage.getClipsByVideo(videoId);
+  const savedClips = await dataStorage.replaceClips(videoId, results.map((clip, i) => ({
+    videoId,
+    filename: path.basename(clip.filePath),
+    filePath: clip.filePath,
+    thumbnailPath: clip.thumbnailPath,
+    startTime: clip.startTime,
+    endTime: clip.endTime,
+    duration: clip.endTime - clip.startTime,
+    sceneIndex: i,
+    startFrame: clip.startFrame,
+    endFrame: clip.endFrame,
+    frameRate: clip.frameRate,
+    detectedStartTime: clip.detectedStartTime,
+    detectedEndTime: clip.detectedEndTime,
+    preset: clip.preset,
+    thumbnailCandidates: clip.thumbnailCandidates,
+    posterIndex: clip.posterIndex,
+  })));
+  
+  const keptFiles = new Set(results.flatMap((clip) => [clip.filePath, clip.thumbnailPath]));
+  for (const previous of previousClips) {
+    for (const file of [previous.filePath, previous.thumbnailPath]) {
+      if (!keptFiles.has(file)) {
+        await fs.promises.rm(file, { force: true });
+      }
+    }
+    if (!keptFiles.has(previous.thumbnailPath)) {
+      const sprites = spriteFilesFor(previous.thumbnailPath);
+      await fs.promises.rm(sprites.sheetPath, { force: true });
+      await fs.promises.rm(sprites.trackPath, { force: true });
+      for (let i = 0; i < (previous.thumbnailCandidates?.length ?? 0); i++) {
+        await fs.promises.rm(candidatePath(previous.thumbnailPath, i), { force: true });
+      }
+      await removeThumbnailVariants(thumbnailCacheDir, (previous.thumbnailCandidates ?? []).map((candidate) => candidate.hash));
+    }
+    if (!keptFiles.has(previous.filePath)) {
+      await fs.promises.rm(clipHlsDir(previous), { recursive: true, force: true });
+      for (const preset of listPresets()) {
+        await fs.promises.rm(clipExportPath(previous, preset), { force: true });
+      }
+    }
+  }
+  
+  return savedClips.map(toClipInfo);
+}
+
+// Send the sheet or track named in the route; the track refers to the sheet by a relative URL
+async function serveSpriteFile(req: Request, res: Response, files: SpriteFiles): Promise<void> {
+  const filePath = req.params.file === "sprite.jpg" ? files.sheetPath : files.trackPath;
+  if (!fs.existsSync(filePath)) {
+    res.status(404).json({ message: "Sprite sheet not found" });
+    return;
   }
+  
+  await serveMedia(req, res, filePath);
+}
+
+// Send an image resized and in the best format the client accepts. URLs carrying the
+// image's hash always get the same content, so browsers may keep those for good
+async function serveThumbnail(req: Request, res: Response, sourcePath: string, size: ThumbnailSize): Promise<void> {
+  const format = await negotiateThumbnailFormat(req.get("Accept"));
+  const variant = await thumbnailVariant(sourcePath, thumbnailCacheDir, size, format);
+  
+  res.vary("Accept");
+  res.setHeader("Cache-Control", req.query.v === variant.hash ? "public, max-age=31536000, immutable" : "no-cache");
+  await serveMedia(req, res, variant.filePath, variant.etag);
 }
 
-function formatTimestamp(startMs: number, endMs: number): string {
-  return `${formatDuration(startMs)} - ${formatDuration(endMs)}`;
+// HLS packages live per video; clip packages are named after the clip file,
+// so an edited clip never picks up the package of the clip it replaced
+function sourceHlsDir(videoId: number): string {
+  return path.join(hlsDir, String(videoId), "source");
+}
+
+function clipHlsDir(clip: Clip): string {
+  return path.join(hlsDir, String(clip.videoId), "clips", path.parse(clip.filename).name);
+}
+
+// Map a stored clip to the API representation
+function toClipInfo(clip: Clip): ClipInfo {
+  const poster = clip.posterIndex !== null ? clip.thumbnailCandidates?.[clip.posterIndex] : undefined;
+  return {
+    id: clip.id,
+    videoId: clip.videoId,
+    sceneIndex: clip.sceneIndex,
+    startTime: clip.startTime,
+    endTime: clip.endTime,
+    duration: clip.duration,
+    timestamp: formatTimestamp(clip.startTime, clip.endTime),
+    startFrame: clip.startFrame ?? undefined,
+    endFrame: clip.endFrame ?? undefined,
+    frameRate: clip.frameRate ?? undefined,
+    startTimecode: clipTimecode(clip.startFrame, clip.startTime, clip.frameRate),
+    endTimecode: clipTimecode(clip.endFrame, clip.endTime, clip.frameRate),
+    detectedStartTime: clip.detectedStartTime ?? undefined,
+    detectedEndTime: clip.detectedEndTime ?? undefined,
+    url: `/api/clips/${clip.id}/stream`,
+    hlsUrl: `/api/videos/${clip.videoId}/hls/clips/${clip.id}/master.m3u8`,
+    // The poster's hash is part of the URL so browsers refetch it once another is picked
+    thumbnailUrl: `/api/clips/${clip.id}/thumbnail${poster ? `?v=${poster.hash}` : ""}`,
+    thumbnailTrackUrl: `/api/clips/${clip.id}/thumbnails.vtt`,
+    posterCandidates: (clip.thumbnailCandidates ?? []).map((candidate, i) => ({
+      ...candidate,
+      url: `/api/clips/${clip.id}/poster-candidates/${i}?v=${candidate.hash}`,
+    })),
+    posterIndex: clip.posterIndex ?? undefined,
+    mimeType: getMimeType(clip.filePath),
+  };
+}
+
+// Count timecode from the frame a boundary was cut on, or from its time for clips
+// whose frames could not be read
+function clipTimecode(frame: number | null, time: number, frameRate: number | null): string | undefined {
+  if (!frameRate) {
+    return undefined;
+  }
+  return frame !== null ? formatFrameTimecode(frame, frameRate) : formatTimecode(time, frameRate);
+}
+
+// Where a clip's export with the given preset is cached. Clips are named after their
+// boundaries, so the export of a clip that was edited is never served for it again
+function clipExportPath(clip: Clip, preset: EncodingPreset): string {
+  return path.join(exportsDir, `${path.parse(clip.filename).name}_${preset.id}${preset.extension}`);
+}
+
+// Get a clip file encoded with the requested preset, rendering it from the source on first use
+async function exportClip(video: Video, clip: Clip, presetId?: EncodingPresetId): Promise<string> {
+  if (!presetId || presetId === clip.preset) {
+    return clip.filePath;
+  }
+  
+  const preset = getPreset(presetId);
+  const exportPath = clipExportPath(clip, preset);
+  if (fs.existsSync(exportPath)) {
+    return exportPath;
+  }
+  
+  // Render next to the cache entry and move it into place once complete
+  const partialPath = path.join(exportsDir, `${uuidv4()}${preset.extension}`);
+  try {
+    const normalization = normalizeOutput(video.probe?.streams.find((stream) => stream.type === "video"));
+    await extractionPool.run("exports", () => extractClip(video.filePath, partialPath, clip.startTime, clip.endTime, preset, { normalization }));
+    await fs.promises.rename(partialPath, exportPath);
+  } finally {
+    await fs.promises.rm(partialPath, { force: true });
+  }
+  
+  return exportPath;
 }
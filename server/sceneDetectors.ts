@@ -0,0 +1,401 @@
+import type { ProcessingOptions, SceneDetectorName, SceneScoreCurve } from '@shared/schema';
+import {
+  adaptiveCuts,
+  agreeingCuts,
+  contentCuts,
+  energyCuts,
+  mergeCuts,
+  type DeadSegments,
+  type DetectionRange,
+} from '@shared/scenes';
+import { fileArg, runFfmpeg } from './ffmpeg';
+
+// Called with how much of the range has been analysed so far, in ms
+export type DetectionProgress = (processed: number) => void;
+
+// Options the detectors read; the silence settings only apply to audio detection
+export type DetectionSettings = Pick<ProcessingOptions, 'threshold' | 'silenceNoiseFloor' | 'silenceMinGap'>;
+
+// A strategy for finding scene boundaries; returns cut points in ms, ascending
+export interface SceneDetector {
+  name: SceneDetectorName;
+  detect(
+    filePath: string,
+    range: DetectionRange,
+    settings: DetectionSettings,
+    signal?: AbortSignal,
+    onProgress?: DetectionProgress
+  ): Promise<number[]>;
+  // Detectors that listen to the soundtrack fail on files without one
+  usesAudio?: boolean;
+  // Detectors driven by the scene score curve can recompute cuts without decoding
+  fromScores?(curve: SceneScoreCurve, range: DetectionRange, threshold: number): number[];
+}
+
+// Black segments shorter than this (in seconds) are ignored
+const BLACK_MIN_DURATION = 0.1;
+// Audio quieter than this for at least the given time (in seconds) counts as silence
+const SILENCE_NOISE_FLOOR = '-50dB';
+const SILENCE_MIN_DURATION = 0.3;
+// Frame size and bin count used when comparing luma histograms
+const HISTOGRAM_WIDTH = 64;
+const HISTOGRAM_HEIGHT = 36;
+const HISTOGRAM_BINS = 32;
+// Audio is downsampled and measured in windows of this many samples (half a second)
+const ENERGY_SAMPLE_RATE = 8000;
+const ENERGY_WINDOW_SAMPLES = 4000;
+// Audio and video cues this close together (in ms) count as the same boundary
+const HYBRID_AGREEMENT_WINDOW = 1000;
+
+// Fades to and from black, cutting in the middle of each black segment
+const blackDetector: SceneDetector = {
+  name: 'black',
+  async detect(filePath, range, _settings, signal, onProgress) {
+    const cuts: number[] = [];
+
+    await runFfmpeg(
+      [
+        ...seekArgs(range),
+        '-i', fileArg(filePath),
+        '-vf', `blackdetect=d=${BLACK_MIN_DURATION}:pix_th=0.10`,
+        '-an',
+        '-f', 'null', '-',
+      ],
+      {
+        signal,
+        failureMessage: 'Failed to detect black frames',
+        onProgress,
+        onStderrLine: (line) => {
+          const matches = line.match(/black_start:([\d.]+)\s+black_end:([\d.]+)/);
+          if (matches) {
+            const midpoint = (parseFloat(matches[1]) + parseFloat(matches[2])) / 2;
+            cuts.push(toSourceTime(range, midpoint));
+          }
+        },
+      }
+    );
+
+    return cuts;
+  },
+};
+
+// Large changes in the luma histogram between consecutive frames,
+// which also picks up dissolves that the scene score smooths over
+const histogramDetector: SceneDetector = {
+  name: 'histogram',
+  async detect(filePath, range, { threshold }, signal, onProgress) {
+    const frameSize = HISTOGRAM_WIDTH * HISTOGRAM_HEIGHT;
+    const frameTimes: number[] = [];
+    const cuts: number[] = [];
+    let pending = Buffer.alloc(0);
+    let previous: Float64Array | null = null;
+    let frameIndex = 0;
+
+    await runFfmpeg(
+      [
+        ...seekArgs(range),
+        '-i', fileArg(filePath),
+        '-an',
+        '-vf', `scale=${HISTOGRAM_WIDTH}:${HISTOGRAM_HEIGHT},format=gray,showinfo`,
+        '-fps_mode', 'passthrough',
+        '-f', 'rawvideo', 'pipe:1',
+      ],
+      {
+        signal,
+        failureMessage: 'Failed to detect scenes',
+        // The frames themselves go to stdout, so progress comes from showinfo instead
+        onStderrLine: (line) => {
+          const matches = line.match(/pts_time:([\d.]+)/);
+          if (matches) {
+            frameTimes.push(parseFloat(matches[1]));
+            onProgress?.(Math.floor(parseFloat(matches[1]) * 1000));
+          }
+        },
+        onStdout: (chunk) => {
+          pending = Buffer.concat([pending, chunk]);
+
+          while (pending.length >= frameSize) {
+            const histogram = lumaHistogram(pending.subarray(0, frameSize));
+            pending = pending.subarray(frameSize);
+
+            if (previous) {
+              const difference = 1 - histogramIntersection(previous, histogram);
+              if (difference > threshold) {
+                cuts.push(frameIndex);
+              }
+            }
+            previous = histogram;
+            frameIndex++;
+          }
+        },
+      }
+    );
+
+    // Frames are numbered as they arrive; map them to their showinfo timestamps
+    return cuts
+      .filter((index) => index < frameTimes.length)
+      .map((index) => toSourceTime(range, frameTimes[index]));
+  },
+};
+
+// Hard cuts, using ffmpeg's scene change score
+const contentDetector = scoreBasedDetector('content', contentCuts);
+
+// Cuts that stand out against a rolling average of the surrounding scores,
+// which copes with fast camera motion better than a fixed threshold
+const adaptiveDetector = scoreBasedDetector('adaptive', adaptiveCuts);
+
+// Gaps in speech, cutting in the middle of each, and sharp changes in loudness,
+// for podcasts, lectures and interviews where the picture barely changes
+const audioDetector: SceneDetector = {
+  name: 'audio',
+  usesAudio: true,
+  async detect(filePath, range, settings, signal, onProgress) {
+    return readAudioCues(filePath, range, settings, signal, onProgress);
+  },
+};
+
+// Visual cuts that coincide with a pause or loudness change in the audio,
+// which filters out camera moves and flashes that the picture alone would cut on
+const hybridDetector: SceneDetector = {
+  name: 'hybrid',
+  usesAudio: true,
+  async detect(filePath, range, settings, signal, onProgress) {
+    // Each pass covers half of the reported progress
+    const length = range.end - range.start;
+    const curve = await readSceneScores(filePath, range, signal, (processed) => onProgress?.(processed / 2));
+    const audioCuts = await readAudioCues(filePath, range, settings, signal, (processed) => onProgress?.((length + processed) / 2));
+    return agreeingCuts(contentCuts(curve, range, settings.threshold), audioCuts, HYBRID_AGREEMENT_WINDOW);
+  },
+};
+
+const detectors: Record<SceneDetectorName, SceneDetector> = {
+  content: contentDetector,
+  adaptive: adaptiveDetector,
+  black: blackDetector,
+  histogram: histogramDetector,
+  audio: audioDetector,
+  hybrid: hybridDetector,
+};
+
+export function getSceneDetector(name: SceneDetectorName): SceneDetector {
+  return detectors[name];
+}
+
+// Record ffmpeg's scene change score for every frame in the range
+export async function readSceneScores(
+  filePath: string,
+  range: DetectionRange,
+  signal?: AbortSignal,
+  onProgress?: DetectionProgress
+): Promise<SceneScoreCurve> {
+  const times: number[] = [];
+  const scores: number[] = [];
+  let frameTime: number | null = null;
+
+  await runFfmpeg(
+    [
+      ...seekArgs(range),
+      '-i', fileArg(filePath),
+      '-an',
+      '-vf', "select='gte(scene,0)',metadata=print:key=lavfi.scene_score",
+      '-f', 'null', '-',
+    ],
+    {
+      signal,
+      failureMessage: 'Failed to detect scenes',
+      onProgress,
+      onStderrLine: (line) => {
+        const time = line.match(/pts_time:([\d.]+)/);
+        if (time) {
+          frameTime = parseFloat(time[1]);
+          return;
+        }
+
+        const score = line.match(/lavfi\.scene_score=([\d.]+)/);
+        if (score && frameTime !== null) {
+          times.push(toSourceTime(range, frameTime));
+          // Four decimals is plenty for thresholding and keeps the stored curve small
+          scores.push(Math.round(parseFloat(score[1]) * 10000) / 10000);
+          frameTime = null;
+        }
+      },
+    }
+  );
+
+  return { rangeStart: range.start, rangeEnd: range.end, times, scores };
+}
+
+// Find black and silent stretches of the range in a single decoding pass
+export async function readDeadSegments(
+  filePath: string,
+  range: DetectionRange,
+  kinds: { black: boolean; silence: boolean },
+  signal?: AbortSignal,
+  onProgress?: DetectionProgress
+): Promise<DeadSegments> {
+  const dead: DeadSegments = { black: [], silence: [] };
+  if (!kinds.black && !kinds.silence) return dead;
+
+  let silenceStart: number | null = null;
+
+  await runFfmpeg(
+    [
+      ...seekArgs(range),
+      '-i', fileArg(filePath),
+      ...(kinds.black ? ['-vf', `blackdetect=d=${BLACK_MIN_DURATION}:pix_th=0.10`] : ['-vn']),
+      ...(kinds.silence ? ['-af', `silencedetect=noise=${SILENCE_NOISE_FLOOR}:d=${SILENCE_MIN_DURATION}`] : ['-an']),
+      '-f', 'null', '-',
+    ],
+    {
+      signal,
+      failureMessage: 'Failed to detect black frames and silence',
+      onProgress,
+      onStderrLine: (line) => {
+        const black = line.match(/black_start:([\d.]+)\s+black_end:([\d.]+)/);
+        if (black) {
+          dead.black.push({ start: toSourceTime(range, parseFloat(black[1])), end: toSourceTime(range, parseFloat(black[2])) });
+          return;
+        }
+
+        const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (start) {
+          silenceStart = toSourceTime(range, Math.max(0, parseFloat(start[1])));
+          return;
+        }
+
+        const end = line.match(/silence_end:\s*([\d.]+)/);
+        if (end && silenceStart !== null) {
+          dead.silence.push({ start: silenceStart, end: toSourceTime(range, parseFloat(end[1])) });
+          silenceStart = null;
+        }
+      },
+    }
+  );
+
+  // Silence that runs to the end of the range is never closed
+  if (silenceStart !== null) {
+    dead.silence.push({ start: silenceStart, end: range.end });
+  }
+
+  return dead;
+}
+
+// Find silence gaps and loudness changes in a single pass over the soundtrack
+async function readAudioCues(
+  filePath: string,
+  range: DetectionRange,
+  { threshold, silenceNoiseFloor, silenceMinGap }: DetectionSettings,
+  signal?: AbortSignal,
+  onProgress?: DetectionProgress
+): Promise<number[]> {
+  const silenceCuts: number[] = [];
+  const times: number[] = [];
+  const levels: number[] = [];
+  let silenceStart: number | null = null;
+  let windowTime: number | null = null;
+
+  await runFfmpeg(
+    [
+      ...seekArgs(range),
+      '-i', fileArg(filePath),
+      '-vn',
+      '-af', [
+        `silencedetect=noise=${silenceNoiseFloor}dB:d=${silenceMinGap / 1000}`,
+        `aresample=${ENERGY_SAMPLE_RATE}`,
+        `asetnsamples=n=${ENERGY_WINDOW_SAMPLES}:p=0`,
+        'astats=metadata=1:reset=1',
+        'ametadata=print:key=lavfi.astats.Overall.RMS_level',
+      ].join(','),
+      '-f', 'null', '-',
+    ],
+    {
+      signal,
+      failureMessage: 'Failed to detect audio changes',
+      onProgress,
+      onStderrLine: (line) => {
+        const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (start) {
+          silenceStart = toSourceTime(range, Math.max(0, parseFloat(start[1])));
+          return;
+        }
+
+        // Silence at either end of the range separates nothing
+        const end = line.match(/silence_end:\s*([\d.]+)/);
+        if (end && silenceStart !== null) {
+          if (silenceStart > range.start) {
+            silenceCuts.push(Math.floor((silenceStart + toSourceTime(range, parseFloat(end[1]))) / 2));
+          }
+          silenceStart = null;
+          return;
+        }
+
+        const time = line.match(/pts_time:([\d.]+)/);
+        if (time) {
+          windowTime = toSourceTime(range, parseFloat(time[1]));
+          return;
+        }
+
+        // Digitally silent windows report -inf
+        const level = line.match(/lavfi\.astats\.Overall\.RMS_level=(-?inf|-?[\d.]+)/);
+        if (level && windowTime !== null) {
+          times.push(windowTime);
+          levels.push(level[1].endsWith('inf') ? -Infinity : parseFloat(level[1]));
+          windowTime = null;
+        }
+      },
+    }
+  );
+
+  // A pause usually explains a loudness change next to it, so prefer the pause
+  return mergeCuts(silenceCuts, energyCuts(times, levels, threshold), silenceMinGap);
+}
+
+// Build a detector that works from the score curve, decoding only when no curve is at hand
+function scoreBasedDetector(
+  name: SceneDetectorName,
+  fromScores: (curve: SceneScoreCurve, range: DetectionRange, threshold: number) => number[]
+): SceneDetector {
+  return {
+    name,
+    async detect(filePath, range, { threshold }, signal, onProgress) {
+      const curve = await readSceneScores(filePath, range, signal, onProgress);
+      return fromScores(curve, range, threshold);
+    },
+    fromScores,
+  };
+}
+
+// Input options limiting decoding to the requested range
+function seekArgs(range: DetectionRange): string[] {
+  const startSec = (range.start / 1000).toFixed(3);
+  const durationSec = ((range.end - range.start) / 1000).toFixed(3);
+  return ['-ss', startSec, '-t', durationSec];
+}
+
+// Timestamps restart at zero after seeking, so shift them back into the source
+function toSourceTime(range: DetectionRange, timeInSeconds: number): number {
+  return range.start + Math.floor(timeInSeconds * 1000);
+}
+
+// Normalised histogram of an 8-bit grayscale frame
+function lumaHistogram(frame: Buffer): Float64Array {
+  const histogram = new Float64Array(HISTOGRAM_BINS);
+  const binSize = 256 / HISTOGRAM_BINS;
+  for (let i = 0; i < frame.length; i++) {
+    histogram[Math.floor(frame[i] / binSize)]++;
+  }
+  for (let i = 0; i < HISTOGRAM_BINS; i++) {
+    histogram[i] /= frame.length;
+  }
+  return histogram;
+}
+
+// Overlap of two normalised histograms, 1 when identical
+function histogramIntersection(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.min(a[i], b[i]);
+  }
+  return sum;
+}
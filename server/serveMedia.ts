@@ -0,0 +1,111 @@
+import type { Request, Response } from "express";
+import fs from "fs";
+import { getMimeType } from "./presets";
+
+interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Send a media file with byte range support, so players can seek without downloading
+// everything first. Handles HEAD, conditional requests and unsatisfiable ranges.
+// Content-addressed files can pass their own tag in place of one from size and mtime
+export async function serveMedia(req: Request, res: Response, filePath: string, contentTag?: string): Promise<void> {
+  const stat = await fs.promises.stat(filePath);
+  const fileSize = stat.size;
+  // Strong, so it can be used with If-Range; files are never rewritten in place
+  const etag = contentTag ?? `"${fileSize.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+  const lastModified = stat.mtime.toUTCString();
+  
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("Content-Type", getMimeType(filePath));
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", lastModified);
+  
+  if (isNotModified(req, etag, stat.mtime)) {
+    res.status(304).end();
+    return;
+  }
+  
+  // A range only applies if the client's copy is still current
+  const rangeHeader = req.headers.range;
+  const range = rangeHeader && ifRangeMatches(req, etag, stat.mtime) ? parseRange(rangeHeader, fileSize) : null;
+  
+  if (range === "unsatisfiable") {
+    res.status(416).setHeader("Content-Range", `bytes */${fileSize}`);
+    res.end();
+    return;
+  }
+  
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${fileSize}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.status(200);
+    res.setHeader("Content-Length", fileSize);
+  }
+  
+  if (req.method === "HEAD" || fileSize === 0) {
+    res.end();
+    return;
+  }
+  
+  const stream = fs.createReadStream(filePath, range ?? undefined);
+  stream.on("error", (error) => {
+    console.error(`Error reading ${filePath}:`, error);
+    res.destroy(error);
+  });
+  // Stop reading when the player goes away, which it does on every seek
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
+}
+
+// Parse a single "bytes=" range. Malformed or multi-part ranges are ignored and the whole
+// file is sent instead; ranges that are well formed but outside the file cannot be served
+function parseRange(header: string, fileSize: number): ByteRange | "unsatisfiable" | null {
+  const matches = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!matches || (!matches[1] && !matches[2])) return null;
+  
+  // "bytes=-500" asks for the last 500 bytes
+  if (!matches[1]) {
+    const suffixLength = parseInt(matches[2], 10);
+    if (suffixLength === 0 || fileSize === 0) return "unsatisfiable";
+    return { start: Math.max(0, fileSize - suffixLength), end: fileSize - 1 };
+  }
+  
+  const start = parseInt(matches[1], 10);
+  if (matches[2] && parseInt(matches[2], 10) < start) return null;
+  if (start >= fileSize) return "unsatisfiable";
+  const end = matches[2] ? Math.min(parseInt(matches[2], 10), fileSize - 1) : fileSize - 1;
+  return { start, end };
+}
+
+// If-None-Match takes precedence over If-Modified-Since, and compares tags weakly
+function isNotModified(req: Request, etag: string, modified: Date): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag || tag.trim() === "*");
+  }
+  
+  const ifModifiedSince = req.headers["if-modified-since"];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have whole-second precision
+    return !isNaN(since) && Math.floor(modified.getTime() / 1000) * 1000 <= since;
+  }
+  
+  return false;
+}
+
+// If-Range holds either the ETag or the Last-Modified date the client last saw;
+// weak tags never match
+function ifRangeMatches(req: Request, etag: string, modified: Date): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(modified.getTime() / 1000) * 1000 === date;
+}
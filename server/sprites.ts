@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { fileArg, runFfmpeg } from './ffmpeg';
+import type { OutputNormalization } from './videoProcessor';
+
+// Time between frames on a sprite sheet in ms, widened for long ranges so the sheet stays small
+const SPRITE_INTERVAL = 2000;
+const MAX_SPRITE_TILES = 100;
+const SPRITE_COLUMNS = 10;
+// Width of each frame on the sheet, in pixels; the height follows the display aspect
+const SPRITE_TILE_WIDTH = 160;
+
+// Name of the sheet as referenced from the WebVTT track, relative to the track's own URL
+export const SPRITE_SHEET_URL = 'sprite.jpg';
+
+export interface SpriteFiles {
+  sheetPath: string;
+  trackPath: string;
+}
+
+interface SpriteOptions {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  aspectRatio: number; // display width over height
+  normalization: OutputNormalization;
+  signal?: AbortSignal;
+}
+
+// Sprite files stored next to a thumbnail, sharing its name
+export function spriteFilesFor(thumbnailPath: string): SpriteFiles {
+  const { dir, name } = path.parse(thumbnailPath);
+  return {
+    sheetPath: path.join(dir, `${name}_sprite.jpg`),
+    trackPath: path.join(dir, `${name}_sprite.vtt`),
+  };
+}
+
+// Sprite files for a whole source video
+export function sourceSpriteFiles(thumbnailDir: string, videoFilename: string): SpriteFiles {
+  return spriteFilesFor(path.join(thumbnailDir, `${path.parse(videoFilename).name}_source.jpg`));
+}
+
+export function hasSprites(files: SpriteFiles): boolean {
+  return fs.existsSync(files.sheetPath) && fs.existsSync(files.trackPath);
+}
+
+// Write a sheet of frames taken at a fixed interval across the range, and a WebVTT track
+// mapping each interval to its frame on the sheet. Cue times are relative to the range start
+export async function generateSprites(inputPath: string, files: SpriteFiles, options: SpriteOptions): Promise<void> {
+  const { startTime, endTime, aspectRatio, normalization, signal } = options;
+  const length = endTime - startTime;
+  const interval = Math.max(SPRITE_INTERVAL, Math.ceil(length / MAX_SPRITE_TILES));
+  const tiles = Math.max(1, Math.ceil(length / interval));
+  const columns = Math.min(SPRITE_COLUMNS, tiles);
+  const rows = Math.ceil(tiles / columns);
+  const tileHeight = Math.max(2, Math.round(SPRITE_TILE_WIDTH / aspectRatio / 2) * 2);
+
+  const filters = [
+    ...normalization.filters,
+    `fps=${(1000 / interval).toFixed(6)}`,
+    `scale=${SPRITE_TILE_WIDTH}:${tileHeight}`,
+    `tile=${columns}x${rows}`,
+  ];
+
+  await runFfmpeg(
+    [
+      '-ss', (startTime / 1000).toFixed(3),
+      '-t', (length / 1000).toFixed(3),
+      '-i', fileArg(inputPath),
+      '-an',
+      '-vf', filters.join(','),
+      '-frames:v', '1',
+      '-q:v', '5',
+      '-y', fileArg(files.sheetPath),
+    ],
+    { signal, failureMessage: 'Failed to generate sprite sheet' }
+  );
+
+  const cues: string[] = [];
+  for (let i = 0; i < tiles; i++) {
+    const x = (i % columns) * SPRITE_TILE_WIDTH;
+    const y = Math.floor(i / columns) * tileHeight;
+    const cueStart = i * interval;
+    const cueEnd = Math.min(length, (i + 1) * interval);
+    cues.push(`${vttTime(cueStart)} --> ${vttTime(cueEnd)}\n${SPRITE_SHEET_URL}#xywh=${x},${y},${SPRITE_TILE_WIDTH},${tileHeight}`);
+  }
+  await fs.promises.writeFile(files.trackPath, `WEBVTT\n\n${cues.join('\n\n')}\n`);
+}
+
+// WebVTT timestamps are hh:mm:ss.ttt
+function vttTime(ms: number): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(millis).padStart(3, '0')}`;
+}
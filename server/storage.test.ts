@@ -0,0 +1,269 @@
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+let database: PGlite | null = null;
+
+// Postgres compiled to WebAssembly, migrated the same way as a real database. It is
+// migrated once and emptied for each test, as migrating takes a while
+async function createDrizzleStorage(): Promise<IStorage> {
+  if (!database) {
+    database = new PGlite();
+    await migrate(drizzle(database, { schema }), { migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations") });
+  } else {
+    await database.exec("TRUNCATE users, videos, clips, jobs, scene_scores RESTART IDENTITY");
+  }
+  return new DrizzleStorage(drizzle(database, { schema }));
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", createDrizzleStorage],
+];
+
+const upload = {
+  filename: "1700000000000-holiday.mp4",
+  originalFilename: "holiday.mp4",
+  filePath: "/uploads/1700000000000-holiday.mp4",
+  fileSize: 1024,
+};
+
+function clipAt(videoId: number, sceneIndex: number) {
+  return {
+    videoId,
+    filename: `holiday_${sceneIndex}.mp4`,
+    filePath: `/uploads/clips/holiday_${sceneIndex}.mp4`,
+    thumbnailPath: `/uploads/thumbnails/holiday_${sceneIndex}.jpg`,
+    startTime: sceneIndex * 1000,
+    endTime: (sceneIndex + 1) * 1000,
+    duration: 1000,
+    sceneIndex,
+  };
+}
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "editor", password: "secret" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("editor")).toEqual(user);
+      expect(await storage.getUser(user.id + 1)).toBeUndefined();
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("videos", () => {
+    it("creates videos with defaults for the unset columns", async () => {
+      const video = await storage.createVideo(upload);
+
+      expect(video).toMatchObject({
+        ...upload,
+        duration: null,
+        format: null,
+        resolution: null,
+        processingStatus: "pending",
+        probe: null,
+      });
+      expect(video.uploadedAt).toBeInstanceOf(Date);
+      expect(await storage.getVideo(video.id)).toEqual(video);
+      expect(await storage.getVideo(video.id + 1)).toBeUndefined();
+    });
+
+    it("updates columns without changing the id", async () => {
+      const video = await storage.createVideo(upload);
+      const updated = await storage.updateVideo(video.id, { id: video.id + 100, duration: 65000, format: "mov,mp4" });
+
+      expect(updated).toMatchObject({ id: video.id, duration: 65000, format: "mov,mp4", filename: upload.filename });
+      expect(await storage.getVideo(video.id)).toEqual(updated);
+    });
+
+    it("updates the processing status", async () => {
+      const video = await storage.createVideo(upload);
+
+      expect((await storage.updateVideoStatus(video.id, "processing")).processingStatus).toBe("processing");
+      expect((await storage.getVideo(video.id))?.processingStatus).toBe("processing");
+    });
+
+    it("describes a video with its duration formatted", async () => {
+      const video = await storage.createVideo({ ...upload, duration: 65000, resolution: "1920x1080" });
+
+      expect(await storage.getVideoInfo(video.id)).toEqual({
+        id: video.id,
+        filename: upload.filename,
+        originalFilename: upload.originalFilename,
+        fileSize: upload.fileSize,
+        duration: "01:05",
+        format: undefined,
+        resolution: "1920x1080",
+        processingStatus: "pending",
+        probe: undefined,
+      });
+    });
+
+    it("rejects updates and info for unknown videos", async () => {
+      await expect(storage.updateVideo(42, { duration: 1 })).rejects.toThrow("Video with ID 42 not found");
+      await expect(storage.updateVideoStatus(42, "failed")).rejects.toThrow("Video with ID 42 not found");
+      await expect(storage.getVideoInfo(42)).rejects.toThrow("Video with ID 42 not found");
+    });
+  });
+
+  describe("clips", () => {
+    it("creates clips with defaults for the optional columns", async () => {
+      const video = await storage.createVideo(upload);
+      const clip = await storage.createClip(clipAt(video.id, 0));
+
+      expect(clip).toMatchObject({
+        ...clipAt(video.id, 0),
+        startFrame: null,
+        endFrame: null,
+        frameRate: null,
+        detectedStartTime: null,
+        detectedEndTime: null,
+        preset: null,
+        thumbnailCandidates: null,
+        posterIndex: null,
+      });
+      expect(clip.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getClip(clip.id)).toEqual(clip);
+      expect(await storage.getClip(clip.id + 1)).toBeUndefined();
+    });
+
+    it("keeps json columns intact", async () => {
+      const video = await storage.createVideo(upload);
+      const thumbnailCandidates = [{ time: 250, score: 12.5, hash: "0123456789abcdef" }];
+      const clip = await storage.createClip({ ...clipAt(video.id, 0), thumbnailCandidates, posterIndex: 0 });
+
+      expect((await storage.getClip(clip.id))?.thumbnailCandidates).toEqual(thumbnailCandidates);
+    });
+
+    it("updates columns without changing the id", async () => {
+      const video = await storage.createVideo(upload);
+      const clip = await storage.createClip(clipAt(video.id, 0));
+      const updated = await storage.updateClip(clip.id, { id: clip.id + 100, posterIndex: 2 });
+
+      expect(updated).toMatchObject({ id: clip.id, posterIndex: 2, filename: clip.filename });
+      expect(await storage.getClip(clip.id)).toEqual(updated);
+      await expect(storage.updateClip(clip.id + 100, { posterIndex: 1 })).rejects.toThrow(`Clip with ID ${clip.id + 100} not found`);
+    });
+
+    it("lists a video's clips in scene order", async () => {
+      const video = await storage.createVideo(upload);
+      const other = await storage.createVideo(upload);
+      await storage.createClip(clipAt(video.id, 1));
+      await storage.createClip(clipAt(other.id, 0));
+      await storage.createClip(clipAt(video.id, 0));
+
+      const listed = await storage.getClipsByVideo(video.id);
+      expect(listed.map((clip) => clip.sceneIndex)).toEqual([0, 1]);
+      expect(listed.every((clip) => clip.videoId === video.id)).toBe(true);
+    });
+
+    it("deletes only the given video's clips", async () => {
+      const video = await storage.createVideo(upload);
+      const other = await storage.createVideo(upload);
+      await storage.createClip(clipAt(video.id, 0));
+      await storage.createClip(clipAt(video.id, 1));
+      const kept = await storage.createClip(clipAt(other.id, 0));
+
+      await storage.deleteClipsByVideo(video.id);
+
+      expect(await storage.getClipsByVideo(video.id)).toEqual([]);
+      expect(await storage.getClipsByVideo(other.id)).toEqual([kept]);
+    });
+
+    it("replaces a video's clips, keeping the rows of clips cut to the same file", async () => {
+      const video = await storage.createVideo(upload);
+      const other = await storage.createVideo(upload);
+      const unchanged = await storage.createClip({ ...clipAt(video.id, 0), posterIndex: 1 });
+      const stale = await storage.createClip(clipAt(video.id, 1));
+      const untouched = await storage.createClip(clipAt(other.id, 0));
+
+      const replaced = await storage.replaceClips(video.id, [
+        { ...clipAt(video.id, 0), sceneIndex: 1 },
+        { ...clipAt(video.id, 2), sceneIndex: 0 },
+      ]);
+
+      expect(replaced[0]).toMatchObject({ id: unchanged.id, sceneIndex: 1, posterIndex: null });
+      expect(replaced[1].id).not.toBe(stale.id);
+      expect(await storage.getClip(stale.id)).toBeUndefined();
+      expect(await storage.getClipsByVideo(video.id)).toEqual([replaced[1], replaced[0]]);
+      expect(await storage.getClipsByVideo(other.id)).toEqual([untouched]);
+    });
+  });
+
+  describe("jobs", () => {
+    it("creates queued jobs with default attempts", async () => {
+      const video = await storage.createVideo(upload);
+      const job = await storage.createJob({ videoId: video.id });
+
+      expect(job).toMatchObject({
+        videoId: video.id,
+        status: "queued",
+        attempts: 0,
+        maxAttempts: 3,
+        options: null,
+        scenes: null,
+        error: null,
+        startedAt: null,
+        finishedAt: null,
+      });
+      expect(await storage.getJob(job.id)).toEqual(job);
+      expect(await storage.getJob(job.id + 1)).toBeUndefined();
+    });
+
+    it("keeps processing options", async () => {
+      const video = await storage.createVideo(upload);
+      const options = schema.processingOptionsSchema.parse({ threshold: 0.3 });
+      const job = await storage.createJob({ videoId: video.id, options });
+
+      expect((await storage.getJob(job.id))?.options).toEqual(options);
+    });
+
+    it("updates jobs and rejects unknown ones", async () => {
+      const video = await storage.createVideo(upload);
+      const job = await storage.createJob({ videoId: video.id });
+      const startedAt = new Date();
+      const updated = await storage.updateJob(job.id, { id: job.id + 100, status: "running", attempts: 1, startedAt });
+
+      expect(updated).toMatchObject({ id: job.id, status: "running", attempts: 1, startedAt });
+      expect(await storage.getJob(job.id)).toEqual(updated);
+      await expect(storage.updateJob(job.id + 1, { status: "failed" })).rejects.toThrow(`Job with ID ${job.id + 1} not found`);
+    });
+
+    it("lists jobs by status and by video, oldest first", async () => {
+      const video = await storage.createVideo(upload);
+      const other = await storage.createVideo(upload);
+      const first = await storage.createJob({ videoId: video.id });
+      const second = await storage.createJob({ videoId: other.id, status: "running" });
+      const third = await storage.createJob({ videoId: video.id, status: "completed" });
+
+      expect((await storage.getJobsByStatus(["queued", "running"])).map((job) => job.id)).toEqual([first.id, second.id]);
+      expect(await storage.getJobsByStatus(["failed"])).toEqual([]);
+      expect((await storage.getJobsByVideo(video.id)).map((job) => job.id)).toEqual([first.id, third.id]);
+    });
+  });
+
+  describe("scene scores", () => {
+    it("saves a curve per video, replacing the earlier one", async () => {
+      const video = await storage.createVideo(upload);
+      expect(await storage.getSceneScores(video.id)).toBeUndefined();
+
+      await storage.saveSceneScores({ videoId: video.id, rangeStart: 0, rangeEnd: 1000, times: [0, 40], scores: [0.1, 0.9] });
+      const replaced = await storage.saveSceneScores({ videoId: video.id, rangeStart: 0, rangeEnd: 2000, times: [0], scores: [0.5] });
+
+      expect(replaced).toMatchObject({ videoId: video.id, rangeEnd: 2000, times: [0], scores: [0.5] });
+      expect(await storage.getSceneScores(video.id)).toEqual(replaced);
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { users, type User, type InsertUser, type InsertVideo, type Video, type InsertClip, type Clip, type VideoInfo } from "@shared/schema";
+import { users, videos, clips, jobs, sceneScores, type User, type InsertUser, type InsertVideo, type Video, type InsertClip, type Clip, type InsertJob, type Job, type InsertSceneScores, type SceneScores, type VideoInfo } from "@shared/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { formatDuration } from "@shared/format";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -18,24 +21,46 @@ export interface IStorage {
   // Clip methods
   createClip(clip: InsertClip): Promise<Clip>;
   getClip(id: number): Promise<Clip | undefined>;
+  updateClip(id: number, data: Partial<Clip>): Promise<Clip>;
   getClipsByVideo(videoId: number): Promise<Clip[]>;
+  deleteClipsByVideo(videoId: number): Promise<void>;
+  // Replace all of a video's clips at once; a clip cut to the same file as an old one
+  // takes over its row, so it keeps its id
+  replaceClips(videoId: number, clips: InsertClip[]): Promise<Clip[]>;
+  
+  // Job methods
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  updateJob(id: number, data: Partial<Job>): Promise<Job>;
+  getJobsByStatus(statuses: string[]): Promise<Job[]>;
+  getJobsByVideo(videoId: number): Promise<Job[]>;
+  
+  // Scene score methods
+  getSceneScores(videoId: number): Promise<SceneScores | undefined>;
+  saveSceneScores(scores: InsertSceneScores): Promise<SceneScores>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private videos: Map<number, Video>;
   private clips: Map<number, Clip>;
+  private jobs: Map<number, Job>;
+  private sceneScores: Map<number, SceneScores>;
   private userId: number;
   private videoId: number;
   private clipId: number;
+  private jobId: number;
 
   constructor() {
     this.users = new Map();
     this.videos = new Map();
     this.clips = new Map();
+    this.jobs = new Map();
+    this.sceneScores = new Map();
     this.userId = 1;
     this.videoId = 1;
     this.clipId = 1;
+    this.jobId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -62,6 +87,11 @@ export class MemStorage implements IStorage {
     const video: Video = { 
       ...insertVideo, 
       id,
+      duration: insertVideo.duration ?? null,
+      format: insertVideo.format ?? null,
+      resolution: insertVideo.resolution ?? null,
+      processingStatus: insertVideo.processingStatus ?? "pending",
+      probe: insertVideo.probe ?? null,
       uploadedAt: now,
     };
     this.videos.set(id, video);
@@ -78,7 +108,8 @@ export class MemStorage implements IStorage {
       throw new Error(`Video with ID ${id} not found`);
     }
     
-    const updatedVideo = { ...video, ...data };
+    // Never overwrite the primary key
+    const updatedVideo = { ...video, ...data, id };
     this.videos.set(id, updatedVideo);
     return updatedVideo;
   }
@@ -93,16 +124,7 @@ export class MemStorage implements IStorage {
       throw new Error(`Video with ID ${id} not found`);
     }
     
-    return {
-      id: video.id,
-      filename: video.filename,
-      originalFilename: video.originalFilename,
-      fileSize: video.fileSize,
-      duration: video.duration,
-      format: video.format,
-      resolution: video.resolution,
-      processingStatus: video.processingStatus,
-    };
+    return toVideoInfo(video);
   }
   
   // Clip methods
@@ -110,7 +132,7 @@ export class MemStorage implements IStorage {
     const id = this.clipId++;
     const now = new Date();
     const clip: Clip = {
-      ...insertClip,
+      ...withClipDefaults(insertClip),
       id,
       createdAt: now,
     };
@@ -122,11 +144,329 @@ export class MemStorage implements IStorage {
     return this.clips.get(id);
   }
   
+  async updateClip(id: number, data: Partial<Clip>): Promise<Clip> {
+    const clip = this.clips.get(id);
+    if (!clip) {
+      throw new Error(`Clip with ID ${id} not found`);
+    }
+    
+    // Never overwrite the primary key
+    const updatedClip = { ...clip, ...data, id };
+    this.clips.set(id, updatedClip);
+    return updatedClip;
+  }
+  
   async getClipsByVideo(videoId: number): Promise<Clip[]> {
     return Array.from(this.clips.values())
       .filter(clip => clip.videoId === videoId)
       .sort((a, b) => a.sceneIndex - b.sceneIndex);
   }
+  
+  async deleteClipsByVideo(videoId: number): Promise<void> {
+    for (const [id, clip] of Array.from(this.clips.entries())) {
+      if (clip.videoId === videoId) {
+        this.clips.delete(id);
+      }
+    }
+  }
+  
+  async replaceClips(videoId: number, insertClips: InsertClip[]): Promise<Clip[]> {
+    const previous = new Map((await this.getClipsByVideo(videoId)).map((clip) => [clip.filePath, clip]));
+    const replaced: Clip[] = [];
+    for (const insertClip of insertClips) {
+      const kept = previous.get(insertClip.filePath);
+      if (kept) {
+        previous.delete(kept.filePath);
+        replaced.push(await this.updateClip(kept.id, withClipDefaults(insertClip)));
+      } else {
+        replaced.push(await this.createClip(insertClip));
+      }
+    }
+    
+    previous.forEach((stale) => this.clips.delete(stale.id));
+    return replaced;
+  }
+  
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.jobId++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      videoId: insertJob.videoId,
+      status: insertJob.status ?? "queued",
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      options: insertJob.options ?? null,
+      scenes: insertJob.scenes ?? null,
+      error: insertJob.error ?? null,
+      createdAt: now,
+      startedAt: insertJob.startedAt ?? null,
+      finishedAt: insertJob.finishedAt ?? null,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+  
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+  
+  async updateJob(id: number, data: Partial<Job>): Promise<Job> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job with ID ${id} not found`);
+    }
+    
+    // Never overwrite the primary key
+    const updatedJob = { ...job, ...data, id };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getJobsByVideo(videoId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.videoId === videoId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Scene score methods
+  async getSceneScores(videoId: number): Promise<SceneScores | undefined> {
+    return this.sceneScores.get(videoId);
+  }
+  
+  async saveSceneScores(insertScores: InsertSceneScores): Promise<SceneScores> {
+    const scores: SceneScores = {
+      ...insertScores,
+      createdAt: new Date(),
+    };
+    this.sceneScores.set(scores.videoId, scores);
+    return scores;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  // Video methods
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const [video] = await this.db.insert(videos).values(insertVideo).returning();
+    return video;
+  }
+  
+  async getVideo(id: number): Promise<Video | undefined> {
+    const [video] = await this.db.select().from(videos).where(eq(videos.id, id));
+    return video;
+  }
+  
+  async updateVideo(id: number, data: Partial<Video>): Promise<Video> {
+    // Never overwrite the primary key
+    const { id: _id, ...values } = data;
+    const [video] = await this.db
+      .update(videos)
+      .set(values)
+      .where(eq(videos.id, id))
+      .returning();
+    if (!video) {
+      throw new Error(`Video with ID ${id} not found`);
+    }
+    
+    return video;
+  }
+  
+  async updateVideoStatus(id: number, status: string): Promise<Video> {
+    return this.updateVideo(id, { processingStatus: status });
+  }
+  
+  async getVideoInfo(id: number): Promise<VideoInfo> {
+    const video = await this.getVideo(id);
+    if (!video) {
+      throw new Error(`Video with ID ${id} not found`);
+    }
+    
+    return toVideoInfo(video);
+  }
+  
+  // Clip methods
+  async createClip(insertClip: InsertClip): Promise<Clip> {
+    const [clip] = await this.db.insert(clips).values(insertClip).returning();
+    return clip;
+  }
+  
+  async getClip(id: number): Promise<Clip | undefined> {
+    const [clip] = await this.db.select().from(clips).where(eq(clips.id, id));
+    return clip;
+  }
+  
+  async updateClip(id: number, data: Partial<Clip>): Promise<Clip> {
+    // Never overwrite the primary key
+    const { id: _id, ...values } = data;
+    const [clip] = await this.db
+      .update(clips)
+      .set(values)
+      .where(eq(clips.id, id))
+      .returning();
+    if (!clip) {
+      throw new Error(`Clip with ID ${id} not found`);
+    }
+    
+    return clip;
+  }
+  
+  async getClipsByVideo(videoId: number): Promise<Clip[]> {
+    return this.db
+      .select()
+      .from(clips)
+      .where(eq(clips.videoId, videoId))
+      .orderBy(asc(clips.sceneIndex));
+  }
+  
+  async deleteClipsByVideo(videoId: number): Promise<void> {
+    await this.db.delete(clips).where(eq(clips.videoId, videoId));
+  }
+  
+  async replaceClips(videoId: number, insertClips: InsertClip[]): Promise<Clip[]> {
+    return this.db.transaction(async (tx) => {
+      const previousClips = await tx.select().from(clips).where(eq(clips.videoId, videoId));
+      const previous = new Map(previousClips.map((clip) => [clip.filePath, clip]));
+      const replaced: Clip[] = [];
+      for (const insertClip of insertClips) {
+        const kept = previous.get(insertClip.filePath);
+        if (kept) {
+          previous.delete(kept.filePath);
+          const [clip] = await tx
+            .update(clips)
+            .set(withClipDefaults(insertClip))
+            .where(eq(clips.id, kept.id))
+            .returning();
+          replaced.push(clip);
+        } else {
+          const [clip] = await tx.insert(clips).values(insertClip).returning();
+          replaced.push(clip);
+        }
+      }
+      
+      const staleIds = Array.from(previous.values(), (stale) => stale.id);
+      if (staleIds.length > 0) {
+        await tx.delete(clips).where(inArray(clips.id, staleIds));
+      }
+      return replaced;
+    });
+  }
+  
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+  
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+  
+  async updateJob(id: number, data: Partial<Job>): Promise<Job> {
+    const { id: _id, ...values } = data;
+    const [job] = await this.db
+      .update(jobs)
+      .set(values)
+      .where(eq(jobs.id, id))
+      .returning();
+    if (!job) {
+      throw new Error(`Job with ID ${id} not found`);
+    }
+    
+    return job;
+  }
+  
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.status, statuses))
+      .orderBy(asc(jobs.id));
+  }
+  
+  async getJobsByVideo(videoId: number): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.videoId, videoId))
+      .orderBy(asc(jobs.id));
+  }
+  
+  // Scene score methods
+  async getSceneScores(videoId: number): Promise<SceneScores | undefined> {
+    const [scores] = await this.db.select().from(sceneScores).where(eq(sceneScores.videoId, videoId));
+    return scores;
+  }
+  
+  async saveSceneScores(insertScores: InsertSceneScores): Promise<SceneScores> {
+    const { videoId: _videoId, ...values } = insertScores;
+    const [scores] = await this.db
+      .insert(sceneScores)
+      .values(insertScores)
+      .onConflictDoUpdate({
+        target: sceneScores.videoId,
+        set: { ...values, createdAt: new Date() },
+      })
+      .returning();
+    return scores;
+  }
+}
+
+// Map a stored video row to the API representation
+function toVideoInfo(video: Video): VideoInfo {
+  return {
+    id: video.id,
+    filename: video.filename,
+    originalFilename: video.originalFilename,
+    fileSize: video.fileSize,
+    duration: video.duration !== null ? formatDuration(video.duration) : undefined,
+    format: video.format ?? undefined,
+    resolution: video.resolution ?? undefined,
+    processingStatus: video.processingStatus,
+    probe: video.probe ?? undefined,
+  };
+}
+
+// Every column of a new clip, the optional ones left unset being cleared
+function withClipDefaults(insertClip: InsertClip): Omit<Clip, "id" | "createdAt"> {
+  return {
+    ...insertClip,
+    startFrame: insertClip.startFrame ?? null,
+    endFrame: insertClip.endFrame ?? null,
+    frameRate: insertClip.frameRate ?? null,
+    detectedStartTime: insertClip.detectedStartTime ?? null,
+    detectedEndTime: insertClip.detectedEndTime ?? null,
+    preset: insertClip.preset ?? null,
+    thumbnailCandidates: insertClip.thumbnailCandidates ?? null,
+    posterIndex: insertClip.posterIndex ?? null,
+  };
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { THUMBNAIL_HEIGHTS, THUMBNAIL_WIDTHS } from '@shared/schema';
+import { getCapabilities } from './capabilities';
+import { fileArg, runFfmpeg } from './ffmpeg';
+import { thumbnailPool } from './workerPool';
+
+// Resizing one image should never take this long
+const RENDER_TIMEOUT = 30 * 1000;
+
+export type ThumbnailFormat = 'avif' | 'webp' | 'jpeg';
+
+// Requested box; a null side follows from the other and the image's aspect
+export interface ThumbnailSize {
+  width: number | null;
+  height: number | null;
+}
+
+interface ThumbnailFormatSpec {
+  mimeType: string;
+  extension: string;
+  // Encoders the ffmpeg build must provide for this format
+  encoders: string[];
+  args: string[];
+}
+
+const FORMATS: Record<ThumbnailFormat, ThumbnailFormatSpec> = {
+  avif: {
+    mimeType: 'image/avif',
+    extension: '.avif',
+    encoders: ['libaom-av1'],
+    args: ['-c:v', 'libaom-av1', '-still-picture', '1', '-crf', '32', '-cpu-used', '6', '-f', 'avif'],
+  },
+  webp: {
+    mimeType: 'image/webp',
+    extension: '.webp',
+    encoders: ['libwebp'],
+    args: ['-c:v', 'libwebp', '-quality', '80', '-f', 'webp'],
+  },
+  jpeg: {
+    mimeType: 'image/jpeg',
+    extension: '.jpg',
+    encoders: ['mjpeg'],
+    args: ['-c:v', 'mjpeg', '-q:v', '3', '-f', 'image2', '-update', '1'],
+  },
+};
+
+// Offered in order of preference when the client accepts them; JPEG is the fallback
+const NEGOTIATED_FORMATS: ThumbnailFormat[] = ['avif', 'webp'];
+
+// Formats that failed to render, which this ffmpeg build evidently cannot write
+const failedFormats = new Set<ThumbnailFormat>();
+
+// Variants being rendered, keyed by cache path, so concurrent requests share one run
+const rendering = new Map<string, Promise<void>>();
+
+// Hashes of files read so far, kept until a file's size or mtime changes
+const hashes = new Map<string, { size: number; mtimeMs: number; hash: string }>();
+
+// Read ?w= and ?h=. Only the listed sizes are rendered, so the cache cannot be filled
+// with arbitrary variants; null when either is not one of them
+export function parseThumbnailSize(width: unknown, height: unknown): ThumbnailSize | null {
+  const parsedWidth = parseDimension(width, THUMBNAIL_WIDTHS);
+  const parsedHeight = parseDimension(height, THUMBNAIL_HEIGHTS);
+  if (parsedWidth === undefined || parsedHeight === undefined) return null;
+  return { width: parsedWidth, height: parsedHeight };
+}
+
+// Pick the preferred format the client names in Accept and ffmpeg can encode. Wildcards
+// are not taken as support, as clients sending */* may not decode AVIF or WebP
+export async function negotiateThumbnailFormat(accept: string | undefined): Promise<ThumbnailFormat> {
+  const accepted = acceptedTypes(accept);
+  const { encoders } = await getCapabilities();
+  const format = NEGOTIATED_FORMATS.find((candidate) =>
+    accepted.has(FORMATS[candidate].mimeType) &&
+    !failedFormats.has(candidate) &&
+    FORMATS[candidate].encoders.every((encoder) => encoders.includes(encoder))
+  );
+  return format ?? 'jpeg';
+}
+
+// Short hash of a file's contents
+export async function contentHash(filePath: string): Promise<string> {
+  const stat = await fs.promises.stat(filePath);
+  const known = hashes.get(filePath);
+  if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) {
+    return known.hash;
+  }
+
+  const hash = crypto.createHash('sha256').update(await fs.promises.readFile(filePath)).digest('hex').slice(0, 16);
+  hashes.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, hash });
+  return hash;
+}
+
+// Get the file to send for an image at a size and format, rendering it into the cache on
+// first use. Cache entries are named after the source's hash, so a replaced source never
+// serves a stale variant. If rendering fails the source itself is sent
+export async function thumbnailVariant(
+  sourcePath: string,
+  cacheDir: string,
+  size: ThumbnailSize,
+  format: ThumbnailFormat
+): Promise<{ filePath: string; hash: string; etag: string }> {
+  const hash = await contentHash(sourcePath);
+  const original = { filePath: sourcePath, hash, etag: `"${hash}"` };
+  if (size.width === null && size.height === null && format === 'jpeg') {
+    return original;
+  }
+
+  const variantName = `${hash}_${size.width ?? 'auto'}x${size.height ?? 'auto'}`;
+  const filePath = path.join(cacheDir, `${variantName}${FORMATS[format].extension}`);
+  if (!fs.existsSync(filePath)) {
+    let render = rendering.get(filePath);
+    if (!render) {
+      render = thumbnailPool.run('thumbnails', () => renderVariant(sourcePath, filePath, size, format))
+        .finally(() => {
+          rendering.delete(filePath);
+        });
+      rendering.set(filePath, render);
+    }
+
+    try {
+      await render;
+    } catch (error) {
+      console.error(`Failed to render ${format} thumbnail of ${sourcePath}:`, error);
+      if (format !== 'jpeg') {
+        failedFormats.add(format);
+      }
+      return original;
+    }
+  }
+
+  return { filePath, hash, etag: `"${variantName}-${format}"` };
+}
+
+// Delete every cached variant of the images with these hashes
+export async function removeThumbnailVariants(cacheDir: string, sourceHashes: string[]): Promise<void> {
+  if (sourceHashes.length === 0) return;
+  const files = await fs.promises.readdir(cacheDir).catch(() => [] as string[]);
+  const removed = files.filter((file) => sourceHashes.some((hash) => file.startsWith(`${hash}_`)));
+  await Promise.all(removed.map((file) => fs.promises.rm(path.join(cacheDir, file), { force: true })));
+}
+
+// Scale to fit the requested box without enlarging, writing next to the cache entry
+// and moving it into place once complete
+async function renderVariant(sourcePath: string, outputPath: string, size: ThumbnailSize, format: ThumbnailFormat): Promise<void> {
+  const { width, height } = size;
+  let scale: string | null = null;
+  if (width !== null && height !== null) {
+    scale = `scale='min(iw,${width})':'min(ih,${height})':force_original_aspect_ratio=decrease:force_divisible_by=2`;
+  } else if (width !== null) {
+    scale = `scale='min(iw,${width})':-2`;
+  } else if (height !== null) {
+    scale = `scale=-2:'min(ih,${height})'`;
+  }
+
+  const partialPath = path.join(path.dirname(outputPath), `${uuidv4()}${FORMATS[format].extension}`);
+  try {
+    await runFfmpeg(
+      [
+        '-i', fileArg(sourcePath),
+        ...(scale ? ['-vf', scale] : []),
+        '-frames:v', '1',
+        ...FORMATS[format].args,
+        '-y', fileArg(partialPath),
+      ],
+      { timeout: RENDER_TIMEOUT, failureMessage: 'Failed to resize thumbnail' }
+    );
+    await fs.promises.rename(partialPath, outputPath);
+  } finally {
+    await fs.promises.rm(partialPath, { force: true });
+  }
+}
+
+// null when absent, undefined when not an allowed size
+function parseDimension(value: unknown, allowed: readonly number[]): number | null | undefined {
+  if (value === undefined) return null;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined;
+  const size = parseInt(value, 10);
+  return allowed.includes(size) ? size : undefined;
+}
+
+// Media types listed in an Accept header, leaving out those refused with q=0
+function acceptedTypes(accept: string | undefined): Set<string> {
+  const types = new Set<string>();
+  for (const range of (accept ?? '').split(',')) {
+    const [type, ...params] = range.split(';').map((part) => part.trim().toLowerCase());
+    const quality = params.find((param) => param.startsWith('q='));
+    if (type && (!quality || parseFloat(quality.slice(2)) > 0)) {
+      types.add(type);
+    }
+  }
+  return types;
+}
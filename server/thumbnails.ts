@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import type { ThumbnailCandidate } from '@shared/schema';
+import { fileArg, runFfmpeg } from './ffmpeg';
+import { contentHash } from './thumbnailVariants';
+import type { OutputNormalization } from './videoProcessor';
+
+// A single frame should never take this long, so a stuck decode is killed instead
+const THUMBNAIL_TIMEOUT = 60 * 1000;
+// Candidate frames per clip, at most one per this many ms of clip
+export const MAX_THUMBNAIL_CANDIDATES = 5;
+const MIN_CANDIDATE_SPACING = 500;
+// Size of the grayscale copy each candidate is scored on
+const SCORE_WIDTH = 160;
+const SCORE_HEIGHT = 90;
+// Mean luma outside this range counts as under- or overexposed
+const DARK_LUMA = 40;
+const BRIGHT_LUMA = 215;
+// Frames with less spread in luma than this are flat, such as fades and title cards
+const FLAT_CONTRAST = 12;
+
+interface CandidateOptions {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+  normalization: OutputNormalization;
+  signal?: AbortSignal;
+}
+
+// Image file of a candidate, stored next to the poster
+export function candidatePath(thumbnailPath: string, index: number): string {
+  const { dir, name } = path.parse(thumbnailPath);
+  return path.join(dir, `${name}_candidate_${index}.jpg`);
+}
+
+// Grab frames spread across the clip, score each, and copy the best to the poster path.
+// The ends are avoided since they are most likely to be mid-transition
+export async function generateThumbnails(
+  inputPath: string,
+  thumbnailPath: string,
+  options: CandidateOptions
+): Promise<{ candidates: ThumbnailCandidate[]; posterIndex: number }> {
+  const { startTime, endTime } = options;
+  const length = endTime - startTime;
+  const count = Math.min(MAX_THUMBNAIL_CANDIDATES, Math.max(1, Math.floor(length / MIN_CANDIDATE_SPACING)));
+
+  const candidates: ThumbnailCandidate[] = [];
+  for (let i = 0; i < count; i++) {
+    options.signal?.throwIfAborted();
+    const time = Math.round(startTime + (length * (i + 1)) / (count + 1));
+    const score = await captureCandidate(inputPath, candidatePath(thumbnailPath, i), time, options);
+    candidates.push({ time, score, hash: await contentHash(candidatePath(thumbnailPath, i)) });
+  }
+
+  const posterIndex = candidates.reduce((best, candidate, i) => (candidate.score > candidates[best].score ? i : best), 0);
+  await fs.promises.copyFile(candidatePath(thumbnailPath, posterIndex), thumbnailPath);
+  return { candidates, posterIndex };
+}
+
+// Write one frame as a JPEG and score a small grayscale copy of it from the same decode
+async function captureCandidate(
+  inputPath: string,
+  outputPath: string,
+  timeMs: number,
+  { normalization, signal }: CandidateOptions
+): Promise<number> {
+  const chunks: Buffer[] = [];
+  const prefix = normalization.filters.length > 0 ? `${normalization.filters.join(',')},` : '';
+
+  await runFfmpeg(
+    [
+      '-ss', (timeMs / 1000).toFixed(3),
+      '-i', fileArg(inputPath),
+      '-filter_complex', `[0:v]${prefix}split=2[poster][probe];[probe]scale=${SCORE_WIDTH}:${SCORE_HEIGHT},format=gray[gray]`,
+      '-map', '[poster]', '-frames:v', '1', '-q:v', '2', '-y', fileArg(outputPath),
+      '-map', '[gray]', '-frames:v', '1', '-f', 'rawvideo', 'pipe:1',
+    ],
+    {
+      signal,
+      timeout: THUMBNAIL_TIMEOUT,
+      failureMessage: 'Failed to generate thumbnail',
+      onStdout: (chunk) => chunks.push(chunk),
+    }
+  );
+
+  const frame = Buffer.concat(chunks);
+  return frame.length >= SCORE_WIDTH * SCORE_HEIGHT ? scoreFrame(frame.subarray(0, SCORE_WIDTH * SCORE_HEIGHT)) : 0;
+}
+
+// Sharpness as the variance of the Laplacian, scaled down for frames that are badly
+// exposed or nearly uniform, which are sharp-edged only in their noise
+function scoreFrame(frame: Buffer): number {
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i];
+    sumSquares += frame[i] * frame[i];
+  }
+  const mean = sum / frame.length;
+  const contrast = Math.sqrt(Math.max(0, sumSquares / frame.length - mean * mean));
+
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let samples = 0;
+  for (let y = 1; y < SCORE_HEIGHT - 1; y++) {
+    for (let x = 1; x < SCORE_WIDTH - 1; x++) {
+      const i = y * SCORE_WIDTH + x;
+      const laplacian = frame[i - 1] + frame[i + 1] + frame[i - SCORE_WIDTH] + frame[i + SCORE_WIDTH] - 4 * frame[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      samples++;
+    }
+  }
+  const sharpness = laplacianSquares / samples - (laplacianSum / samples) ** 2;
+
+  let exposure = 1;
+  if (mean < DARK_LUMA) exposure = mean / DARK_LUMA;
+  if (mean > BRIGHT_LUMA) exposure = (255 - mean) / (255 - BRIGHT_LUMA);
+  const spread = Math.min(1, contrast / FLAT_CONTRAST);
+
+  return Math.round(sharpness * exposure * spread * 100) / 100;
+}
@@ -1,25 +1,95 @@
-import { spawn, exec } from 'child_process';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { Video } from '@shared/schema';
-
-const SCENE_THRESHOLD = 0.4; // Default scene detection threshold
+import type { EncodingPresetId, ExtractionMode, MediaProbe, ProbeStream, ProcessingOptions, ProcessingStatus, SceneScoreCurve, ThumbnailCandidate, Video } from '@shared/schema';
+import { buildSceneRanges, curveCovers, trimScenes, type SceneRange } from '@shared/scenes';
+import { getSceneDetector, readDeadSegments, readSceneScores } from './sceneDetectors';
+import { getPreset, type EncodingPreset } from './presets';
+import { extractionPool } from './workerPool';
+import { fileArg, runFfmpeg, runFfprobe } from './ffmpeg';
+import { displaySize, isVariableFrameRate, pixelAspect, probeMedia } from './probe';
+import { generateSprites, hasSprites, sourceSpriteFiles, spriteFilesFor } from './sprites';
+import { MAX_THUMBNAIL_CANDIDATES, candidatePath, generateThumbnails } from './thumbnails';
 
 interface ProcessOptions {
   outputDir: string;
   thumbnailDir: string;
-  threshold?: number;
-  onProgress: (progress: number, stage: string) => void;
+  settings: ProcessingOptions;
+  // Score curve recorded by an earlier run, reused when it covers the range
+  sceneScores?: SceneScoreCurve;
+  // Clips from an earlier run whose files can be kept when a scene is unchanged
+  existingClips?: ExistingClip[];
+  signal?: AbortSignal;
+  onSceneScores?: (curve: SceneScoreCurve) => Promise<void>;
+  onProgress: (progress: number, stage: string, timing?: ProgressTiming) => void;
   onComplete: (results: ProcessResults) => void;
   onError: (error: Error) => void;
+  onCancel: () => void;
+}
+
+// Throughput of the stage in progress, as reported in the processing status
+type ProgressTiming = Pick<ProcessingStatus, 'eta' | 'speed'>;
+
+// Called with how much of the current output has been written, in ms
+type OutputProgress = (outTime: number) => void;
+
+// How re-encoded output is made to look the way the source is meant to be shown
+export interface OutputNormalization {
+  // Video filters run before the preset's own
+  filters: string[];
+  // Extra output options
+  args: string[];
+  // The decoded frames differ in shape from the stored ones, so stream-copied
+  // pieces cannot be joined with re-encoded ones
+  reshapes: boolean;
 }
 
-interface ClipResult {
+interface ExtractOptions {
+  normalization?: OutputNormalization;
+  signal?: AbortSignal;
+  onProgress?: OutputProgress;
+}
+
+export interface ClipResult {
   filePath: string;
   thumbnailPath: string;
   startTime: number; // in milliseconds
   endTime: number; // in milliseconds
+  startFrame: number | null; // index of the first frame, null when frames could not be read
+  endFrame: number | null; // index of the frame after the last
+  frameRate: number | null;
+  detectedStartTime: number | null; // scene boundaries before trimming, null when untrimmed
+  detectedEndTime: number | null;
+  preset: EncodingPresetId | null; // null when stream copied
+  thumbnailCandidates: ThumbnailCandidate[] | null; // frames scored for the poster, in clip order
+  posterIndex: number | null; // candidate shown as the thumbnail
+}
+
+// A clip from an earlier run, whose files and chosen poster carry over when it is unchanged
+type ExistingClip = Pick<ClipResult, 'filePath' | 'thumbnailPath' | 'thumbnailCandidates' | 'posterIndex'>;
+
+// A scene about to be extracted, with its boundaries before trimming if it was trimmed
+type PlannedScene = SceneRange & Pick<ClipResult, 'detectedStartTime' | 'detectedEndTime'>;
+
+// How the clips of one run are cut from the source
+interface ClipRender {
+  preset: EncodingPreset | null; // null when stream copying or smart rendering
+  extractionMode: ExtractionMode;
+  keyframes: number[];
+  videoStream: ProbeStream;
+  normalization: OutputNormalization;
+  aspectRatio: number; // display width over height, for sprite sheets
+}
+
+interface RebuildOptions {
+  outputDir: string;
+  thumbnailDir: string;
+  extractionMode: ExtractionMode;
+  preset: EncodingPresetId;
+  // Clips whose files can be kept when a scene is unchanged
+  existingClips?: ExistingClip[];
+  signal?: AbortSignal;
 }
 
 interface ProcessResults {
@@ -27,197 +97,746 @@ interface ProcessResults {
   duration: number; // in milliseconds
   format: string;
   resolution: string;
+  probe: MediaProbe;
 }
 
 export async function processVideo(video: Video, options: ProcessOptions): Promise<void> {
   try {
-    const { outputDir, thumbnailDir, onProgress, onComplete, onError } = options;
-    const threshold = options.threshold || SCENE_THRESHOLD;
+    options.onComplete(await detectAndExtract(video, options));
+  } catch (error) {
+    if (options.signal?.aborted) {
+      console.log(`Processing of video ${video.id} cancelled`);
+      options.onCancel();
+      return;
+    }
+    
+    console.error("Video processing error:", error);
+    options.onError(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+// Detect a video's scenes and extract them, removing whatever was written unless it all
+// succeeds. Files are gone before the run is reported, so a new run cannot lose its own
+async function detectAndExtract(video: Video, options: ProcessOptions): Promise<ProcessResults> {
+  const createdFiles: string[] = [];
+  let completed = false;
+  
+  try {
+    const { outputDir, thumbnailDir, settings, signal, onProgress } = options;
     
     // Step 1: Get video info
     onProgress(5, "Analyzing video...");
-    const videoInfo = await getVideoInfo(video.filePath);
+    const videoInfo = await getVideoInfo(video.filePath, signal);
+    
+    // Clamp the requested analysis range to the actual video
+    const rangeStart = Math.min(settings.startTime ?? 0, videoInfo.duration);
+    const rangeEnd = Math.min(settings.endTime ?? videoInfo.duration, videoInfo.duration);
+    if (rangeEnd <= rangeStart) {
+      throw new Error("The selected range is outside the video");
+    }
     
     // Step 2: Detect scenes
-    onProgress(15, "Detecting scenes...");
-    const scenes = await detectScenes(video.filePath, threshold);
+    signal?.throwIfAborted();
+    const range = { start: rangeStart, end: rangeEnd };
+    const detector = getSceneDetector(settings.detector);
+    const hasAudio = videoInfo.probe.streams.some((stream) => stream.type === 'audio');
+    if (detector.usesAudio && !hasAudio) {
+      throw new Error("The file has no audio track to detect scenes from");
+    }
+    let cuts: number[];
+    
+    // Follow an analysis pass through its range, moving progress from one percentage to another
+    const trackPass = (stage: string, from: number, to: number, rangeLength: number) => {
+      const throughput = measureThroughput(rangeLength);
+      onProgress(from, stage);
+      return (processed: number) => {
+        const done = Math.min(processed, rangeLength);
+        onProgress(from + Math.floor((done / rangeLength) * (to - from)), stage, throughput(done));
+      };
+    };
+    
+    // Detection runs from 5% to 25%, leaving the rest up to 30% for trimming
+    const trackDetection = (rangeLength: number) => trackPass("Detecting scenes...", 5, 25, rangeLength);
+    
+    if (detector.fromScores) {
+      let curve = options.sceneScores;
+      if (curve && curveCovers(curve, range)) {
+        onProgress(25, "Reusing recorded scene scores...");
+      } else {
+        // Widen to whatever was recorded before so earlier coverage is not lost
+        const scoreRange = curve
+          ? { start: Math.min(curve.rangeStart, range.start), end: Math.max(curve.rangeEnd, range.end) }
+          : range;
+        const onDetectionProgress = trackDetection(scoreRange.end - scoreRange.start);
+        curve = await readSceneScores(video.filePath, scoreRange, signal, onDetectionProgress);
+        await options.onSceneScores?.(curve);
+      }
+      cuts = detector.fromScores(curve, range, settings.threshold);
+    } else {
+      const onDetectionProgress = trackDetection(rangeEnd - rangeStart);
+      cuts = await detector.detect(video.filePath, range, settings, signal, onDetectionProgress);
+    }
+    
+    let scenes = buildSceneRanges(cuts, rangeStart, rangeEnd, settings).map((scene) => ({
+      ...scene,
+      detectedStartTime: null as number | null,
+      detectedEndTime: null as number | null,
+    }));
+    
+    // Trim black frames and silence from the scene ends, remembering where they were detected
+    if (settings.trimBlack || settings.trimSilence) {
+      const dead = await readDeadSegments(
+        video.filePath,
+        range,
+        { black: settings.trimBlack, silence: settings.trimSilence && hasAudio },
+        signal,
+        trackPass("Finding black frames and silence...", 25, 30, rangeEnd - rangeStart)
+      );
+      
+      scenes = trimScenes(scenes, dead, settings).map((scene) => {
+        const trimmed = scene.startTime !== scene.detectedStartTime || scene.endTime !== scene.detectedEndTime;
+        return {
+          startTime: scene.startTime,
+          endTime: scene.endTime,
+          detectedStartTime: trimmed ? scene.detectedStartTime : null,
+          detectedEndTime: trimmed ? scene.detectedEndTime : null,
+        };
+      });
+      
+      if (scenes.length === 0) {
+        throw new Error("Every scene was black or silent");
+      }
+    }
+    
+    // Detected cuts, split points and range ends fall between frames, and with variable
+    // frame rates a fixed-rate guess drifts, so land every boundary on a real frame.
+    // Stream copy can only start on a keyframe, so move the boundaries there instead
+    const { frames, keyframes } = await getFrameTimes(video.filePath, videoInfo, signal);
+    scenes = snapToTimes(scenes, settings.extractionMode === 'copy' ? keyframes : frames);
+    const normalization = normalizeOutput(videoInfo.videoStream);
+    const frameRate = timecodeRate(videoInfo.videoStream);
     
     if (scenes.length === 0) {
       throw new Error("No scenes detected in the video");
     }
     
-    // Step 3: Extract clips
+    // Step 3: Extract clips, several at a time through the shared worker pool
     onProgress(30, "Extracting clips...");
-    const clipResults: ClipResult[] = [];
     const totalScenes = scenes.length;
     
-    for (let i = 0; i < scenes.length; i++) {
-      const scene = scenes[i];
-      const nextScene = i < scenes.length - 1 ? scenes[i + 1] : videoInfo.duration;
-      const startTime = scene;
-      const endTime = nextScene;
-      const duration = endTime - startTime;
-      
-      if (duration < 500) {
-        // Skip very short scenes (less than 0.5 seconds)
-        continue;
-      }
-      
-      // Generate filenames
-      const clipFilename = `${path.parse(video.filename).name}_scene_${i + 1}.mp4`;
-      const clipPath = path.join(outputDir, clipFilename);
-      const thumbnailFilename = `${path.parse(video.filename).name}_scene_${i + 1}.jpg`;
-      const thumbnailPath = path.join(thumbnailDir, thumbnailFilename);
-      
-      // Extract clip
-      await extractClip(video.filePath, clipPath, startTime, endTime);
+    // Copied clips keep the source codec, so presets only apply when re-encoding
+    const render: ClipRender = {
+      preset: settings.extractionMode === 'reencode' ? getPreset(settings.preset) : null,
+      extractionMode: settings.extractionMode,
+      keyframes,
+      videoStream: videoInfo.videoStream,
+      normalization,
+      aspectRatio: aspectRatio(videoInfo.videoStream),
+    };
+    const clipResults = scenes.map((scene) => planClip(video, scene, frames, frameRate, render, outputDir, thumbnailDir));
+    const pendingClips = clipsToExtract(clipResults, options.existingClips);
+    
+    // Extraction runs from 30% to 90%, weighted by clip length; clips finish out of
+    // order, so progress sums what each one has written rather than counting clips
+    const clipLength = (clip: ClipResult) => clip.endTime - clip.startTime;
+    const totalLength = clipResults.reduce((sum, clip) => sum + clipLength(clip), 0);
+    const pendingLength = pendingClips.reduce((sum, clip) => sum + clipLength(clip), 0);
+    const extracted = new Map<ClipResult, number>();
+    const throughput = measureThroughput(pendingLength);
+    let finishedClips = totalScenes - pendingClips.length;
+    
+    const reportExtraction = () => {
+      let done = 0;
+      extracted.forEach((length) => { done += length; });
+      const progress = 30 + Math.floor(((totalLength - pendingLength + done) / totalLength) * 60);
+      onProgress(progress, `Extracting clips (${finishedClips} of ${totalScenes} done)...`, throughput(done));
+    };
+    
+    const extractScene = async (clip: ClipResult, extractionSignal: AbortSignal): Promise<void> => {
+      const onClipProgress = (outTime: number) => {
+        extracted.set(clip, Math.min(outTime, clipLength(clip)));
+        reportExtraction();
+      };
       
-      // Generate thumbnail
-      await generateThumbnail(video.filePath, thumbnailPath, startTime + Math.min(1000, duration / 2));
+      createdFiles.push(...newClipFiles(clip, options.existingClips));
+      await renderClip(video.filePath, clip, render, extractionSignal, onClipProgress);
       
-      clipResults.push({
-        filePath: clipPath,
-        thumbnailPath,
-        startTime,
-        endTime,
+      extracted.set(clip, clipLength(clip));
+      finishedClips++;
+      reportExtraction();
+    };
+    
+    // The source's own sprite sheet is shared by every run, so it is only made once
+    const sourceSprites = sourceSpriteFiles(thumbnailDir, video.filename);
+    const extractSourceSprites = async (extractionSignal: AbortSignal) => {
+      createdFiles.push(sourceSprites.sheetPath, sourceSprites.trackPath);
+      await generateSprites(video.filePath, sourceSprites, {
+        startTime: 0,
+        endTime: videoInfo.duration,
+        aspectRatio: render.aspectRatio,
+        normalization,
+        signal: extractionSignal,
       });
-      
-      // Update progress
-      const clipProgress = 30 + Math.floor(((i + 1) / totalScenes) * 60);
-      onProgress(clipProgress, `Extracting clip ${i + 1} of ${totalScenes}...`);
+    };
+    const tasks = pendingClips.map((clip) => (extractionSignal: AbortSignal) => extractScene(clip, extractionSignal));
+    if (!hasSprites(sourceSprites)) {
+      tasks.push(extractSourceSprites);
     }
+    await runExtraction(video.id, tasks, signal);
     
     // Step 4: Complete
     onProgress(100, "Processing complete");
-    onComplete({
+    completed = true;
+    return {
       clips: clipResults,
       duration: videoInfo.duration,
       format: videoInfo.format,
       resolution: videoInfo.resolution,
-    });
-  } catch (error) {
-    console.error("Video processing error:", error);
-    options.onError(error instanceof Error ? error : new Error(String(error)));
+      probe: videoInfo.probe,
+    };
+  } finally {
+    if (!completed) {
+      await removeFiles(createdFiles);
+    }
   }
 }
 
-// Get video information
-async function getVideoInfo(filePath: string): Promise<{
-  duration: number;
-  format: string;
-  resolution: string;
-}> {
-  return new Promise((resolve, reject) => {
-    const command = `ffprobe -v error -select_streams v:0 -show_entries stream=width,height,codec_name:format=duration -of json "${filePath}"`;
+// Re-extract a video's clips after their boundaries were edited by hand. Frame times are
+// read again so edited boundaries land on frames, and unchanged clips keep their files
+export async function rebuildClips(video: Video, scenes: PlannedScene[], options: RebuildOptions): Promise<ClipResult[]> {
+  const { outputDir, thumbnailDir, extractionMode, signal } = options;
+  const createdFiles: string[] = [];
+  let completed = false;
+  
+  try {
+    const videoInfo = await getVideoInfo(video.filePath, signal);
+    const { frames, keyframes } = await getFrameTimes(video.filePath, videoInfo, signal);
+    const snapped = snapToTimes(scenes, extractionMode === 'copy' ? keyframes : frames);
+    if (snapped.length !== scenes.length) {
+      throw new Error("An edited clip would be empty once cut on frame boundaries");
+    }
     
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Error running ffprobe: ${error.message}`);
-        return reject(new Error(`Failed to get video info: ${error.message}`));
-      }
-      
-      if (stderr) {
-        console.error(`ffprobe stderr: ${stderr}`);
-      }
-      
-      try {
-        const info = JSON.parse(stdout);
-        const width = info.streams[0].width;
-        const height = info.streams[0].height;
-        const codec = info.streams[0].codec_name;
-        const duration = Math.floor(parseFloat(info.format.duration) * 1000); // Convert to ms
-        
-        resolve({
-          duration,
-          format: codec.toUpperCase(),
-          resolution: `${width} × ${height}`,
-        });
-      } catch (err) {
-        reject(new Error('Failed to parse video information'));
-      }
-    });
+    const render: ClipRender = {
+      preset: extractionMode === 'reencode' ? getPreset(options.preset) : null,
+      extractionMode,
+      keyframes,
+      videoStream: videoInfo.videoStream,
+      normalization: normalizeOutput(videoInfo.videoStream),
+      aspectRatio: aspectRatio(videoInfo.videoStream),
+    };
+    const frameRate = timecodeRate(videoInfo.videoStream);
+    const clipResults = snapped.map((scene) => planClip(video, scene, frames, frameRate, render, outputDir, thumbnailDir));
+    
+    // Snapping can undo a small edit, most often a nudge by a frame between two keyframes
+    const existingPaths = new Set(options.existingClips?.map((clip) => clip.filePath));
+    if (clipResults.length === existingPaths.size && clipResults.every((clip) => existingPaths.has(clip.filePath))) {
+      throw new Error(extractionMode === 'copy'
+        ? "The edit has no effect: stream-copied clips can only be cut on keyframes, and the nearest one is where the cut already is"
+        : "The edit has no effect once cut on frame boundaries");
+    }
+    
+    await runExtraction(video.id, clipsToExtract(clipResults, options.existingClips).map((clip) => async (extractionSignal) => {
+      createdFiles.push(...newClipFiles(clip, options.existingClips));
+      await renderClip(video.filePath, clip, render, extractionSignal);
+    }), signal);
+    
+    completed = true;
+    return clipResults;
+  } finally {
+    if (!completed) {
+      await removeFiles(createdFiles);
+    }
+  }
+}
+
+// Name a scene's files after its boundaries so unchanged clips keep their names
+function planClip(
+  video: Video,
+  { startTime, endTime, detectedStartTime, detectedEndTime }: PlannedScene,
+  frames: number[],
+  frameRate: number | null,
+  render: ClipRender,
+  outputDir: string,
+  thumbnailDir: string
+): ClipResult {
+  const { preset } = render;
+  const baseName = `${path.parse(video.filename).name}_${startTime}-${endTime}_${preset ? preset.id : render.extractionMode}`;
+  return {
+    filePath: path.join(outputDir, `${baseName}${preset ? preset.extension : '.mp4'}`),
+    thumbnailPath: path.join(thumbnailDir, `${baseName}.jpg`),
+    startTime,
+    endTime,
+    startFrame: frames.length > 0 ? nearestIndex(frames, startTime) : null,
+    // The end is exclusive, so past the last frame it is the frame count
+    endFrame: frames.length > 0
+      ? (endTime > frames[frames.length - 1] ? frames.length : nearestIndex(frames, endTime))
+      : null,
+    frameRate,
+    detectedStartTime,
+    detectedEndTime,
+    preset: preset ? preset.id : null,
+    thumbnailCandidates: null,
+    posterIndex: null,
+  };
+}
+
+// Clips without files from an earlier run that would be extracted identically. Kept
+// clips take over the earlier candidates and poster, which may have been picked by hand
+function clipsToExtract(clips: ClipResult[], existingClips: ExistingClip[] | undefined): ClipResult[] {
+  return clips.filter((clip) => {
+    const existing = existingClips?.find((previous) => previous.filePath === clip.filePath);
+    const reusable =
+      existing &&
+      existing.thumbnailCandidates &&
+      fs.existsSync(existing.filePath) &&
+      fs.existsSync(existing.thumbnailPath) &&
+      existing.thumbnailCandidates.every((_, i) => fs.existsSync(candidatePath(existing.thumbnailPath, i))) &&
+      hasSprites(spriteFilesFor(existing.thumbnailPath));
+    if (reusable) {
+      clip.thumbnailCandidates = existing.thumbnailCandidates;
+      clip.posterIndex = existing.posterIndex;
+    }
+    return !reusable;
   });
 }
 
-// Detect scene changes in the video
-async function detectScenes(filePath: string, threshold: number): Promise<number[]> {
-  return new Promise((resolve, reject) => {
-    const command = `ffmpeg -i "${filePath}" -vf "select='gt(scene,${threshold})',showinfo" -f null -`;
-    
-    exec(command, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Error running ffmpeg scene detection: ${error.message}`);
-        return reject(new Error(`Failed to detect scenes: ${error.message}`));
-      }
-      
-      try {
-        const scenes: number[] = [0]; // Always include the start of the video
-        const lines = stderr.split('\n'); // FFmpeg outputs to stderr
-        
-        // Extract timestamps from showinfo filter output
-        for (const line of lines) {
-          if (line.includes('pts_time:')) {
-            const matches = line.match(/pts_time:([\d.]+)/);
-            if (matches && matches[1]) {
-              const timeInSeconds = parseFloat(matches[1]);
-              scenes.push(Math.floor(timeInSeconds * 1000)); // Convert to ms
-            }
-          }
-        }
-        
-        // Sort timestamps in ascending order
-        scenes.sort((a, b) => a - b);
-        
-        resolve(scenes);
-      } catch (err) {
-        reject(new Error('Failed to parse scene detection output'));
+// Run extraction tasks through the shared worker pool, stopping the rest as soon as one
+// fails or the job is cancelled. Settles only once every started task has, so nothing is
+// still writing when a failed run's files are removed
+async function runExtraction(
+  videoId: number,
+  tasks: ((signal: AbortSignal) => Promise<void>)[],
+  signal?: AbortSignal
+): Promise<void> {
+  signal?.throwIfAborted();
+  const extraction = new AbortController();
+  const abortExtraction = () => extraction.abort(signal?.reason);
+  signal?.addEventListener('abort', abortExtraction);
+  let firstError: unknown = null;
+  
+  await Promise.allSettled(tasks.map((task) =>
+    extractionPool.run(videoId, () => task(extraction.signal), extraction.signal).catch((error) => {
+      if (!extraction.signal.aborted) {
+        firstError = error;
+        extraction.abort(error);
       }
-    });
+    })
+  ));
+  signal?.removeEventListener('abort', abortExtraction);
+  
+  signal?.throwIfAborted();
+  if (firstError) {
+    throw firstError;
+  }
+}
+
+// Files a clip's extraction writes that no current clip refers to. Only these are removed
+// should the run fail, as the others still belong to the clips it was meant to replace
+function newClipFiles(clip: ClipResult, existingClips: ExistingClip[] | undefined): string[] {
+  const referenced = new Set(existingClips?.flatMap(clipFiles));
+  return clipFiles(clip).filter((file) => !referenced.has(file));
+}
+
+// Every file written for a clip, for removal should its run fail. Candidates that were
+// never written are ignored, so the most a clip can have is listed
+function clipFiles(clip: Pick<ClipResult, 'filePath' | 'thumbnailPath'>): string[] {
+  const sprites = spriteFilesFor(clip.thumbnailPath);
+  const candidates = Array.from({ length: MAX_THUMBNAIL_CANDIDATES }, (_, i) => candidatePath(clip.thumbnailPath, i));
+  return [clip.filePath, clip.thumbnailPath, ...candidates, sprites.sheetPath, sprites.trackPath];
+}
+
+// Cut one clip from the source and write its thumbnails and sprite sheet
+async function renderClip(
+  inputPath: string,
+  clip: ClipResult,
+  render: ClipRender,
+  signal?: AbortSignal,
+  onProgress?: OutputProgress
+): Promise<void> {
+  const { filePath, thumbnailPath, startTime, endTime } = clip;
+  const { preset, normalization } = render;
+  
+  signal?.throwIfAborted();
+  if (preset) {
+    await extractClip(inputPath, filePath, startTime, endTime, preset, { normalization, signal, onProgress });
+  } else if (render.extractionMode === 'copy') {
+    await copyClip(inputPath, filePath, startTime, endTime, signal, onProgress);
+  } else {
+    await smartRenderClip(inputPath, filePath, startTime, endTime, render.keyframes, render.videoStream, normalization, signal, onProgress);
+  }
+  
+  signal?.throwIfAborted();
+  const thumbnails = await generateThumbnails(inputPath, thumbnailPath, { startTime, endTime, normalization, signal });
+  clip.thumbnailCandidates = thumbnails.candidates;
+  clip.posterIndex = thumbnails.posterIndex;
+  
+  signal?.throwIfAborted();
+  await generateSprites(inputPath, spriteFilesFor(thumbnailPath), {
+    startTime,
+    endTime,
+    aspectRatio: render.aspectRatio,
+    normalization,
+    signal,
   });
 }
 
-// Extract a clip from the video
-async function extractClip(
+// Delete partially written output, ignoring files that were never created
+async function removeFiles(filePaths: string[]): Promise<void> {
+  await Promise.all(
+    filePaths.map((filePath) => fs.promises.rm(filePath, { force: true }).catch((err) => {
+      console.error(`Failed to remove ${filePath}: ${err.message}`);
+    }))
+  );
+}
+
+// Estimate speed (x realtime) and seconds remaining from media processed against wall time
+function measureThroughput(totalLength: number): (processed: number) => ProgressTiming {
+  const startedAt = Date.now();
+  return (processed) => {
+    const elapsed = Date.now() - startedAt;
+    if (processed <= 0 || elapsed <= 0) {
+      return {};
+    }
+    
+    const speed = processed / elapsed;
+    return {
+      speed: Math.round(speed * 100) / 100,
+      eta: Math.ceil(Math.max(0, totalLength - processed) / speed / 1000),
+    };
+  };
+}
+
+// Get video information, failing clearly when there is nothing to cut
+export async function getVideoInfo(filePath: string, signal?: AbortSignal): Promise<{
+  duration: number;
+  format: string;
+  resolution: string;
+  probe: MediaProbe;
+  videoStream: ProbeStream;
+}> {
+  const probe = await probeMedia(filePath, signal);
+  
+  const videoStream = probe.streams.find((stream) => stream.type === 'video');
+  if (!videoStream) {
+    throw new Error('The file has no video stream');
+  }
+  if (!probe.duration) {
+    throw new Error('Could not determine the video duration');
+  }
+  
+  // Report the size the video is watched at, not the stored one
+  const size = displaySize(videoStream);
+  return {
+    duration: probe.duration,
+    format: videoStream.codec.toUpperCase(),
+    resolution: size ? `${size.width} × ${size.height}` : 'Unknown',
+    probe,
+    videoStream,
+  };
+}
+
+// Rate timecode is counted at; variable frame rate sources are conformed to their average
+function timecodeRate(videoStream: ProbeStream): number | null {
+  const rate = isVariableFrameRate(videoStream) ? videoStream.averageFrameRate : videoStream.frameRate;
+  return rate ?? null;
+}
+
+// Shape of the frame as shown, falling back to 16:9 when the size is unknown
+function aspectRatio(videoStream: ProbeStream): number {
+  const size = displaySize(videoStream);
+  return size ? size.width / size.height : 16 / 9;
+}
+
+// Work out how to turn a source's frames into upright, square-pixel output
+export function normalizeOutput(videoStream: ProbeStream | undefined): OutputNormalization {
+  if (!videoStream) {
+    return { filters: [], args: [], reshapes: false };
+  }
+  
+  const squarePixels = pixelAspect(videoStream) === 1;
+  return {
+    // Stretch non-square pixels out to the width they are shown at
+    filters: squarePixels ? [] : ['scale=trunc(iw*sar/2)*2:ih', 'setsar=1'],
+    // Keep each frame's own timestamp instead of duplicating or dropping frames to a fixed rate
+    args: isVariableFrameRate(videoStream) ? ['-fps_mode', 'passthrough'] : [],
+    // ffmpeg turns rotated frames upright while decoding, so re-encoded output is already
+    // upright and no longer needs the rotation tag, while stream copies keep both
+    reshapes: !squarePixels || Boolean(videoStream.rotation),
+  };
+}
+
+// Extract a clip from the video, encoding it with the given preset
+export async function extractClip(
   inputPath: string, 
   outputPath: string, 
   startTime: number, 
-  endTime: number
+  endTime: number,
+  preset: EncodingPreset,
+  options: ExtractOptions = {}
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const startSec = (startTime / 1000).toFixed(3);
-    const durationSec = ((endTime - startTime) / 1000).toFixed(3);
-    
-    const command = `ffmpeg -ss ${startSec} -i "${inputPath}" -t ${durationSec} -c:v libx264 -c:a aac -preset fast -crf 22 "${outputPath}"`;
+  const { normalization, signal, onProgress } = options;
+  const startSec = (startTime / 1000).toFixed(3);
+  const durationSec = ((endTime - startTime) / 1000).toFixed(3);
+  
+  const filters = [...(normalization?.filters ?? []), ...preset.videoFilters];
+  const videoArgs = preset.audioOnly
+    ? []
+    : [...(filters.length > 0 ? ['-vf', filters.join(',')] : []), ...(normalization?.args ?? [])];
+  
+  await runFfmpeg(
+    ['-ss', startSec, '-i', fileArg(inputPath), '-t', durationSec, ...videoArgs, ...preset.args, '-y', fileArg(outputPath)],
+    { signal, failureMessage: 'Failed to extract clip', onProgress }
+  );
+}
+
+// Get the frame and keyframe timestamps of the first video stream, in ms from the start
+// of the file. Frame times round down so seeking to one still includes that frame;
+// keyframe times round up so a stream copy does not fall back to the keyframe before
+async function getFrameTimes(
+  filePath: string,
+  { duration, probe }: { duration: number; probe: MediaProbe },
+  signal?: AbortSignal
+): Promise<{
+  frames: number[];
+  keyframes: number[];
+}> {
+  const startOffset = probe.startTime ?? 0;
+  // Every packet of the file is read, so long videos get longer: two minutes plus
+  // one for each ten minutes of video
+  const timeout = 2 * 60 * 1000 + duration / 10;
+  const stdout = await runFfprobe(
+    ['-select_streams', 'v:0', '-show_entries', 'packet=pts_time,flags', '-of', 'csv=p=0', fileArg(filePath)],
+    { signal, timeout, failureMessage: 'Failed to read frame timestamps' }
+  );
+  
+  const frames: number[] = [];
+  const keyframes: number[] = [];
+  for (const line of stdout.split('\n')) {
+    const [ptsTime, flags] = line.trim().split(',');
+    if (!ptsTime || ptsTime === 'N/A') continue;
     
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Error extracting clip: ${error.message}`);
-        return reject(new Error(`Failed to extract clip: ${error.message}`));
-      }
-      
-      resolve();
-    });
+    const time = parseFloat(ptsTime) * 1000 - startOffset;
+    frames.push(Math.max(0, Math.floor(time)));
+    if (flags?.includes('K')) {
+      keyframes.push(Math.max(0, Math.ceil(time)));
+    }
+  }
+  
+  // Packets are listed in decode order
+  return {
+    frames: frames.sort((a, b) => a - b),
+    keyframes: keyframes.sort((a, b) => a - b),
+  };
+}
+
+// Move every boundary to the nearest of the given times, dropping scenes that collapse
+function snapToTimes<T extends { startTime: number; endTime: number }>(scenes: T[], times: number[]): T[] {
+  if (times.length === 0) return scenes;
+  
+  const snapped: T[] = [];
+  scenes.forEach((scene, i) => {
+    // The very end of the range is kept, since extraction simply runs to the last packet
+    const startTime = nearestTime(times, scene.startTime);
+    const endTime = i === scenes.length - 1 ? scene.endTime : nearestTime(times, scene.endTime);
+    if (endTime > startTime) {
+      snapped.push({ ...scene, startTime, endTime });
+    }
   });
+  
+  return snapped;
 }
 
-// Generate a thumbnail from the video
-async function generateThumbnail(
-  inputPath: string, 
-  outputPath: string, 
-  timeMs: number
+function nearestTime(times: number[], target: number): number {
+  return times[nearestIndex(times, target)];
+}
+
+// Binary search a sorted list for the position of the value closest to the target
+function nearestIndex(times: number[], target: number): number {
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  
+  // times[low] is the first at or after the target; the one before may be closer
+  if (low > 0 && target - times[low - 1] <= times[low] - target) {
+    return low - 1;
+  }
+  return low;
+}
+
+// Cut a clip without re-encoding; the start must be on a keyframe to be exact
+async function copyClip(
+  inputPath: string,
+  outputPath: string,
+  startTime: number,
+  endTime: number,
+  signal?: AbortSignal,
+  onProgress?: OutputProgress
+): Promise<void> {
+  const startSec = (startTime / 1000).toFixed(3);
+  const durationSec = ((endTime - startTime) / 1000).toFixed(3);
+  
+  await runFfmpeg(
+    ['-ss', startSec, '-i', fileArg(inputPath), '-t', durationSec, '-c', 'copy', '-avoid_negative_ts', 'make_zero', '-y', fileArg(outputPath)],
+    { signal, failureMessage: 'Failed to copy clip', onProgress }
+  );
+}
+
+// Encoders that can produce segments joinable with the source's own stream
+interface SmartRenderEncoder {
+  encoder: string;
+  // ffprobe's profile names, mapped to the encoder's
+  profiles: Record<string, string>;
+  // Options setting the level as ffprobe reports it
+  levelArgs: (level: number) => string[];
+}
+
+const SMART_RENDER_ENCODERS: Record<string, SmartRenderEncoder> = {
+  h264: {
+    encoder: 'libx264',
+    profiles: {
+      'Constrained Baseline': 'baseline',
+      Baseline: 'baseline',
+      Main: 'main',
+      High: 'high',
+      'High 10': 'high10',
+      'High 4:2:2': 'high422',
+      'High 4:4:4 Predictive': 'high444',
+    },
+    // Reported as ten times the level, so 41 is level 4.1
+    levelArgs: (level) => ['-level', (level / 10).toFixed(1)],
+  },
+  hevc: {
+    encoder: 'libx265',
+    profiles: { Main: 'main', 'Main 10': 'main10' },
+    // Reported as thirty times the level, so 123 is level 4.1
+    levelArgs: (level) => ['-x265-params', `level-idc=${(level / 30).toFixed(1)}`],
+  },
+};
+
+// Encoder options reproducing the source's codec, profile, level and pixel format, so
+// re-encoded pieces decode with the same settings as the copied ones. Null when any of
+// them is unknown or cannot be produced
+function matchingEncoderArgs(videoStream: ProbeStream): string[] | null {
+  const match = SMART_RENDER_ENCODERS[videoStream.codec];
+  const profile = videoStream.profile && match?.profiles[videoStream.profile];
+  if (!match || !profile || !videoStream.level || !videoStream.pixelFormat) {
+    return null;
+  }
+  return [
+    '-c:v', match.encoder,
+    '-profile:v', profile,
+    ...match.levelArgs(videoStream.level),
+    '-pix_fmt', videoStream.pixelFormat,
+  ];
+}
+
+// Re-encode only the partial GOPs at the head and tail of a clip and stream copy
+// the whole GOPs in between, so most of the clip keeps the source quality
+async function smartRenderClip(
+  inputPath: string,
+  outputPath: string,
+  startTime: number,
+  endTime: number,
+  keyframes: number[],
+  videoStream: ProbeStream,
+  normalization: OutputNormalization,
+  signal?: AbortSignal,
+  onProgress?: OutputProgress
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const timeSec = (timeMs / 1000).toFixed(3);
+  const encoderArgs = matchingEncoderArgs(videoStream);
+  const firstKeyframe = keyframes.find((keyframe) => keyframe >= startTime);
+  const lastKeyframe = [...keyframes].reverse().find((keyframe) => keyframe <= endTime);
+  
+  // Without a whole GOP to copy, an encoder that matches the source, or frames that
+  // decode to the shape they are stored in, re-encode everything
+  if (
+    !encoderArgs || normalization.reshapes ||
+    firstKeyframe === undefined || lastKeyframe === undefined || firstKeyframe >= lastKeyframe
+  ) {
+    return extractClip(inputPath, outputPath, startTime, endTime, getPreset('h264'), { normalization, signal, onProgress });
+  }
+  
+  // Each piece reports its own output time, so offset it by where the piece starts in the clip
+  const segmentProgress = (segmentStart: number): OutputProgress | undefined =>
+    onProgress && ((outTime) => onProgress(segmentStart - startTime + outTime));
+  
+  // The pieces are kept as MPEG-TS with Annex B video, which carries the parameter sets
+  // in-band. Joined as MP4, every piece would be decoded with the first one's, and the
+  // encoder's never match the source's exactly
+  const annexB = ['-bsf:v', `${videoStream.codec}_mp4toannexb`, '-f', 'mpegts'];
+  
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), `smart-${uuidv4()}-`));
+  try {
+    const segments: string[] = [];
     
-    const command = `ffmpeg -ss ${timeSec} -i "${inputPath}" -vframes 1 -q:v 2 "${outputPath}"`;
+    if (firstKeyframe > startTime) {
+      const head = path.join(workDir, 'head.ts');
+      await encodeSegment(inputPath, head, startTime, firstKeyframe, [...encoderArgs, ...annexB], normalization, signal, segmentProgress(startTime));
+      segments.push(head);
+    }
     
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Error generating thumbnail: ${error.message}`);
-        return reject(new Error(`Failed to generate thumbnail: ${error.message}`));
-      }
-      
-      resolve();
-    });
-  });
-}
\ No newline at end of file
+    const middle = path.join(workDir, 'middle.ts');
+    await runFfmpeg(
+      [
+        '-ss', (firstKeyframe / 1000).toFixed(3),
+        '-i', fileArg(inputPath),
+        '-t', ((lastKeyframe - firstKeyframe) / 1000).toFixed(3),
+        '-map', '0:v:0', '-c:v', 'copy', ...annexB,
+        '-avoid_negative_ts', 'make_zero',
+        '-y', fileArg(middle),
+      ],
+      { signal, failureMessage: 'Failed to render clip', onProgress: segmentProgress(firstKeyframe) }
+    );
+    segments.push(middle);
+    
+    if (endTime > lastKeyframe) {
+      const tail = path.join(workDir, 'tail.ts');
+      await encodeSegment(inputPath, tail, lastKeyframe, endTime, [...encoderArgs, ...annexB], normalization, signal, segmentProgress(lastKeyframe));
+      segments.push(tail);
+    }
+    
+    // Join the pieces with the concat demuxer, which copies without re-encoding, and
+    // encode the audio of the whole range in one go so no priming gaps open at the joins
+    const listPath = path.join(workDir, 'segments.txt');
+    await fs.promises.writeFile(listPath, segments.map((segment) => `file '${segment}'`).join('\n'));
+    await runFfmpeg(
+      [
+        '-f', 'concat', '-safe', '0', '-i', fileArg(listPath),
+        '-ss', (startTime / 1000).toFixed(3), '-i', fileArg(inputPath),
+        '-t', ((endTime - startTime) / 1000).toFixed(3),
+        '-map', '0:v:0', '-map', '1:a:0?',
+        '-c:v', 'copy', '-c:a', 'aac',
+        '-y', fileArg(outputPath),
+      ],
+      { signal, failureMessage: 'Failed to render clip' }
+    );
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Re-encode a short stretch of video to match the source so it can be concatenated
+async function encodeSegment(
+  inputPath: string,
+  outputPath: string,
+  startTime: number,
+  endTime: number,
+  encoderArgs: string[],
+  normalization: OutputNormalization,
+  signal?: AbortSignal,
+  onProgress?: OutputProgress
+): Promise<void> {
+  const startSec = (startTime / 1000).toFixed(3);
+  const durationSec = ((endTime - startTime) / 1000).toFixed(3);
+  await runFfmpeg(
+    ['-ss', startSec, '-i', fileArg(inputPath), '-t', durationSec, '-map', '0:v:0', ...normalization.args, ...encoderArgs, '-preset', 'fast', '-crf', '18', '-y', fileArg(outputPath)],
+    { signal, failureMessage: 'Failed to render clip', onProgress }
+  );
+}
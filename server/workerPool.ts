@@ -0,0 +1,89 @@
+import os from "os";
+
+interface PendingTask {
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+// Bounded pool for ffmpeg work shared by every running job. Waiting tasks are
+// grouped by owner and served round-robin so one long video cannot starve the rest.
+export class WorkerPool {
+  private size: number;
+  private active: number;
+  private waiting: Map<string | number, PendingTask[]>;
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+    this.active = 0;
+    this.waiting = new Map();
+  }
+
+  // Run a task once a worker is free; rejects without running if aborted while waiting
+  run<T>(owner: string | number, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+
+      const pending: PendingTask = {
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.next();
+            });
+        },
+        cancel: reject,
+      };
+
+      const onAbort = () => {
+        const queue = this.waiting.get(owner);
+        const index = queue ? queue.indexOf(pending) : -1;
+        if (queue && index !== -1) {
+          queue.splice(index, 1);
+          if (queue.length === 0) this.waiting.delete(owner);
+          pending.cancel(signal?.reason);
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const queue = this.waiting.get(owner);
+      if (queue) {
+        queue.push(pending);
+      } else {
+        this.waiting.set(owner, [pending]);
+      }
+      this.next();
+    });
+  }
+
+  // Start waiting tasks while workers are free, taking one from each owner in turn
+  private next(): void {
+    while (this.active < this.size && this.waiting.size > 0) {
+      const [owner, queue] = this.waiting.entries().next().value!;
+      const pending = queue.shift()!;
+
+      // Move the owner to the back of the rotation
+      this.waiting.delete(owner);
+      if (queue.length > 0) {
+        this.waiting.set(owner, queue);
+      }
+
+      pending.start();
+    }
+  }
+}
+
+// Shared by all jobs so the total number of ffmpeg processes stays bounded
+export const extractionPool = new WorkerPool(
+  parseInt(process.env.EXTRACTION_CONCURRENCY || "", 10) || os.cpus().length
+);
+
+// Resized thumbnails are requested while the grid is on screen, so they get their own
+// workers rather than waiting behind clip extraction
+export const thumbnailPool = new WorkerPool(
+  parseInt(process.env.THUMBNAIL_CONCURRENCY || "", 10) || 2
+);
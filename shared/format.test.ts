@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration, formatFrameTimecode, formatTimecode, formatTimestamp, isDropFrameRate, toFrameNumber } from "./format";
+
+const NTSC = 30000 / 1001;
+const NTSC_60 = 60000 / 1001;
+
+describe("formatDuration", () => {
+  it("shows hours only when there are some", () => {
+    expect(formatDuration(65_999)).toBe("01:05");
+    expect(formatDuration(3_725_000)).toBe("01:02:05");
+  });
+});
+
+describe("formatTimestamp", () => {
+  it("uses timecode when asked and the frame rate is known", () => {
+    expect(formatTimestamp(0, 2000, "timecode", 25)).toBe("00:00:00:00 - 00:00:02:00");
+  });
+
+  it("falls back to wall-clock time without a frame rate", () => {
+    expect(formatTimestamp(0, 65_000, "timecode", null)).toBe("00:00 - 01:05");
+    expect(formatTimestamp(0, 65_000)).toBe("00:00 - 01:05");
+  });
+});
+
+describe("isDropFrameRate", () => {
+  it("accepts the NTSC rates, however they are rounded", () => {
+    expect(isDropFrameRate(NTSC)).toBe(true);
+    expect(isDropFrameRate(29.97)).toBe(true);
+    expect(isDropFrameRate(59.94)).toBe(true);
+    expect(isDropFrameRate(30)).toBe(false);
+    expect(isDropFrameRate(23.976)).toBe(false);
+  });
+});
+
+describe("toFrameNumber", () => {
+  it("rounds to the nearest frame, as frame times are whole milliseconds", () => {
+    // Frame 1 of 29.97 starts at 33.367ms, which is stored as 33
+    expect(toFrameNumber(33, NTSC)).toBe(1);
+    expect(toFrameNumber(1000, 25)).toBe(25);
+  });
+});
+
+describe("formatTimecode", () => {
+  it("counts every frame at whole rates", () => {
+    expect(formatTimecode(59_960, 25)).toBe("00:00:59:24");
+    expect(formatTimecode(60_000, 30)).toBe("00:01:00:00");
+    expect(formatTimecode(3_600_000, 30)).toBe("01:00:00:00");
+  });
+});
+
+describe("formatFrameTimecode", () => {
+  it("skips frames 0 and 1 at the start of each minute at 29.97", () => {
+    expect(formatFrameTimecode(1799, NTSC)).toBe("00:00:59;29");
+    expect(formatFrameTimecode(1800, NTSC)).toBe("00:01:00;02");
+    expect(formatFrameTimecode(3597, NTSC)).toBe("00:01:59;29");
+    expect(formatFrameTimecode(3598, NTSC)).toBe("00:02:00;02");
+  });
+
+  it("keeps frames 0 and 1 every tenth minute at 29.97", () => {
+    expect(formatFrameTimecode(17_981, NTSC)).toBe("00:09:59;29");
+    expect(formatFrameTimecode(17_982, NTSC)).toBe("00:10:00;00");
+    expect(formatFrameTimecode(17_983, NTSC)).toBe("00:10:00;01");
+    expect(formatFrameTimecode(19_782, NTSC)).toBe("00:11:00;02");
+    expect(formatFrameTimecode(107_892, NTSC)).toBe("01:00:00;00");
+  });
+
+  it("skips four frames a minute at 59.94", () => {
+    expect(formatFrameTimecode(3599, NTSC_60)).toBe("00:00:59;59");
+    expect(formatFrameTimecode(3600, NTSC_60)).toBe("00:01:00;04");
+    expect(formatFrameTimecode(35_963, NTSC_60)).toBe("00:09:59;59");
+    expect(formatFrameTimecode(35_964, NTSC_60)).toBe("00:10:00;00");
+  });
+
+  it("stays in step with the clock across an hour of 29.97", () => {
+    expect(formatTimecode(3_600_000, NTSC)).toBe("01:00:00;00");
+  });
+});
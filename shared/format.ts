@@ -0,0 +1,74 @@
+// Helper functions for formatting timestamps, shared by the server and the client
+
+// Wall-clock time, or SMPTE timecode at the source frame rate
+export type TimestampMode = "clock" | "timecode";
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  
+  if (hours > 0) {
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  } else {
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+}
+
+// Timecode falls back to wall-clock time when the frame rate is unknown
+export function formatTimestamp(
+  startMs: number,
+  endMs: number,
+  mode: TimestampMode = "clock",
+  frameRate?: number | null
+): string {
+  if (mode === "timecode" && frameRate) {
+    return `${formatTimecode(startMs, frameRate)} - ${formatTimecode(endMs, frameRate)}`;
+  }
+  return `${formatDuration(startMs)} - ${formatDuration(endMs)}`;
+}
+
+// NTSC rates count frames in drop-frame timecode so it keeps pace with the clock
+export function isDropFrameRate(frameRate: number): boolean {
+  return Math.abs(frameRate - 30000 / 1001) < 0.01 || Math.abs(frameRate - 60000 / 1001) < 0.01;
+}
+
+// Frame nearest to the given time, counting from zero. Frame times are kept in whole
+// milliseconds, so one can fall just short of its frame and rounding down would miss it
+export function toFrameNumber(ms: number, frameRate: number): number {
+  return Math.round((ms * frameRate) / 1000);
+}
+
+// SMPTE timecode, HH:MM:SS:FF, or HH:MM:SS;FF in drop-frame
+export function formatTimecode(ms: number, frameRate: number): string {
+  return formatFrameTimecode(toFrameNumber(ms, frameRate), frameRate);
+}
+
+// SMPTE timecode of a frame, counting from zero
+export function formatFrameTimecode(frameNumber: number, frameRate: number): string {
+  const dropFrame = isDropFrameRate(frameRate);
+  const timebase = Math.round(frameRate);
+  let frame = frameNumber;
+  
+  if (dropFrame) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped at the start of every minute except each tenth
+    const dropped = timebase / 15;
+    const framesPerTenMinutes = Math.round(frameRate * 600);
+    const framesPerMinute = timebase * 60 - dropped;
+    const tens = Math.floor(frame / framesPerTenMinutes);
+    const remainder = frame % framesPerTenMinutes;
+    frame += 9 * dropped * tens;
+    if (remainder > dropped) {
+      frame += dropped * Math.floor((remainder - dropped) / framesPerMinute);
+    }
+  }
+  
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const frames = frame % timebase;
+  const seconds = Math.floor(frame / timebase) % 60;
+  const minutes = Math.floor(frame / (timebase * 60)) % 60;
+  const hours = Math.floor(frame / (timebase * 3600));
+  
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${dropFrame ? ';' : ':'}${pad(frames)}`;
+}
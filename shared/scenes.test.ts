@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildSceneRanges, energyCuts, trimScenes } from "./scenes";
+
+const noTrimming = { trimBlack: false, trimSilence: false, dropEmptyScenes: false };
+
+describe("buildSceneRanges", () => {
+  it("cuts the range at each cut", () => {
+    expect(buildSceneRanges([2000, 5000], 0, 8000, { minSceneLength: 1000 })).toEqual([
+      { startTime: 0, endTime: 2000 },
+      { startTime: 2000, endTime: 5000 },
+      { startTime: 5000, endTime: 8000 },
+    ]);
+  });
+
+  it("merges scenes shorter than the minimum into the one before", () => {
+    expect(buildSceneRanges([500, 3000, 3500, 9500], 0, 10_000, { minSceneLength: 1000 })).toEqual([
+      { startTime: 0, endTime: 3000 },
+      { startTime: 3000, endTime: 10_000 },
+    ]);
+  });
+
+  it("keeps scenes exactly at the minimum length", () => {
+    expect(buildSceneRanges([1000, 9000], 0, 10_000, { minSceneLength: 1000 })).toEqual([
+      { startTime: 0, endTime: 1000 },
+      { startTime: 1000, endTime: 9000 },
+      { startTime: 9000, endTime: 10_000 },
+    ]);
+  });
+
+  it("splits scenes longer than the maximum into equal parts", () => {
+    expect(buildSceneRanges([3000], 0, 10_000, { minSceneLength: 1000, maxSceneLength: 3000 })).toEqual([
+      { startTime: 0, endTime: 3000 },
+      { startTime: 3000, endTime: 5333 },
+      { startTime: 5333, endTime: 7667 },
+      { startTime: 7667, endTime: 10_000 },
+    ]);
+  });
+
+  it("counts from the start of the range", () => {
+    expect(buildSceneRanges([], 4000, 6000, { minSceneLength: 1000, maxSceneLength: 2000 })).toEqual([
+      { startTime: 4000, endTime: 6000 },
+    ]);
+  });
+});
+
+describe("trimScenes", () => {
+  const scene = { startTime: 0, endTime: 5000 };
+
+  it("trims overlapping black and silence off the ends", () => {
+    const dead = { black: [{ start: 0, end: 800 }], silence: [{ start: 700, end: 1200 }, { start: 4950, end: 5000 }] };
+
+    expect(trimScenes([scene], dead, { ...noTrimming, trimBlack: true, trimSilence: true })).toEqual([
+      { startTime: 1200, endTime: 4950, detectedStartTime: 0, detectedEndTime: 5000 },
+    ]);
+    expect(trimScenes([scene], dead, { ...noTrimming, trimBlack: true })).toEqual([
+      { startTime: 800, endTime: 5000, detectedStartTime: 0, detectedEndTime: 5000 },
+    ]);
+  });
+
+  it("leaves dead stretches in the middle of a scene alone", () => {
+    const dead = { black: [{ start: 2000, end: 3000 }], silence: [] };
+
+    expect(trimScenes([scene], dead, { ...noTrimming, trimBlack: true })).toEqual([
+      { startTime: 0, endTime: 5000, detectedStartTime: 0, detectedEndTime: 5000 },
+    ]);
+  });
+
+  it("keeps a scene trimming would empty as detected, unless dropping empty scenes", () => {
+    const dead = { black: [{ start: 0, end: 2500 }, { start: 2450, end: 5000 }], silence: [] };
+
+    expect(trimScenes([scene], dead, { ...noTrimming, trimBlack: true })).toEqual([
+      { startTime: 0, endTime: 5000, detectedStartTime: 0, detectedEndTime: 5000 },
+    ]);
+    expect(trimScenes([scene], dead, { ...noTrimming, trimBlack: true, dropEmptyScenes: true })).toEqual([]);
+  });
+});
+
+describe("energyCuts", () => {
+  const times = Array.from({ length: 16 }, (_, i) => i * 100);
+
+  it("finds the peak of a change in loudness", () => {
+    const levels = times.map((_, i) => (i < 8 ? -40 : -10));
+
+    expect(energyCuts(times, levels, 0.5)).toEqual([800]);
+    expect(energyCuts(times, levels, 1)).toEqual([]);
+  });
+
+  it("treats everything below the floor as the same silence", () => {
+    const levels = times.map((_, i) => (i < 8 ? -Infinity : -120));
+
+    expect(energyCuts(times, levels, 0.1)).toEqual([]);
+  });
+});
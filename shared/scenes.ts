@@ -0,0 +1,224 @@
+import type { ProcessingOptions, SceneScoreCurve } from "./schema";
+
+// Scene detection helpers shared by the processor and the threshold preview in the client
+
+export interface DetectionRange {
+  start: number; // in milliseconds
+  end: number; // in milliseconds
+}
+
+export interface SceneRange {
+  startTime: number; // in milliseconds
+  endTime: number; // in milliseconds
+}
+
+// A scene after trimming, remembering where it was detected
+export interface TrimmedScene extends SceneRange {
+  detectedStartTime: number;
+  detectedEndTime: number;
+}
+
+// Black and silent stretches of the source, in milliseconds
+export interface DeadSegments {
+  black: DetectionRange[];
+  silence: DetectionRange[];
+}
+
+// Frames on each side of the current one used for the adaptive rolling average
+const ADAPTIVE_WINDOW = 2;
+// How far above its neighbours a frame's score must be to count as a cut
+const ADAPTIVE_RATIO = 3;
+// Black or silence starting this close to a scene boundary counts as touching it, in ms
+const TRIM_TOLERANCE = 100;
+// Loudness windows on each side of a point compared when looking for energy changes
+const ENERGY_CONTEXT = 4;
+// Level change in dB that a threshold of 1 asks for
+const ENERGY_JUMP_RANGE = 30;
+// Anything quieter than this is treated as the same silence, in dBFS
+const ENERGY_FLOOR = -90;
+
+// Frames whose scene score exceeds the threshold
+export function contentCuts(curve: SceneScoreCurve, range: DetectionRange, threshold: number): number[] {
+  const cuts: number[] = [];
+  forEachFrame(curve, range, (time, score) => {
+    if (score > threshold) {
+      cuts.push(time);
+    }
+  });
+  return cuts;
+}
+
+// Frames whose score stands out against the average of their neighbours
+export function adaptiveCuts(curve: SceneScoreCurve, range: DetectionRange, threshold: number): number[] {
+  const { times, scores } = curve;
+  // The threshold is the minimum score a frame needs before it is compared at all
+  const minScore = threshold / 4;
+  const cuts: number[] = [];
+
+  forEachFrame(curve, range, (time, score, i) => {
+    if (i < ADAPTIVE_WINDOW || i >= times.length - ADAPTIVE_WINDOW || score < minScore) return;
+
+    let sum = 0;
+    for (let j = i - ADAPTIVE_WINDOW; j <= i + ADAPTIVE_WINDOW; j++) {
+      if (j !== i) sum += scores[j];
+    }
+    const average = sum / (ADAPTIVE_WINDOW * 2);
+
+    if (score >= average * ADAPTIVE_RATIO) {
+      cuts.push(time);
+    }
+  });
+
+  return cuts;
+}
+
+// Points where the average loudness before and after differs sharply, such as music
+// starting under speech. Levels are RMS in dBFS, one per window starting at times[i]
+export function energyCuts(times: number[], levels: number[], threshold: number): number[] {
+  const jump = threshold * ENERGY_JUMP_RANGE;
+  const floored = levels.map((level) => Math.max(level, ENERGY_FLOOR));
+  
+  const differences = floored.map((_, i) => {
+    if (i < ENERGY_CONTEXT || i + ENERGY_CONTEXT > floored.length) return 0;
+    return Math.abs(average(floored, i - ENERGY_CONTEXT, i) - average(floored, i, i + ENERGY_CONTEXT));
+  });
+  
+  // Keep only the peak of each change, as neighbouring windows see the same jump
+  const cuts: number[] = [];
+  differences.forEach((difference, i) => {
+    if (difference > jump && difference >= (differences[i - 1] ?? 0) && difference > (differences[i + 1] ?? 0)) {
+      cuts.push(times[i]);
+    }
+  });
+  return cuts;
+}
+
+// Combine two sets of cuts, dropping secondary cuts within the window of a primary one
+export function mergeCuts(primary: number[], secondary: number[], window: number): number[] {
+  const extra = secondary.filter((cut) => !primary.some((other) => Math.abs(other - cut) <= window));
+  return [...primary, ...extra].sort((a, b) => a - b);
+}
+
+// Cuts with a matching cut in the other set within the window, keeping the primary timing
+export function agreeingCuts(primary: number[], other: number[], window: number): number[] {
+  return primary.filter((cut) => other.some((match) => Math.abs(match - cut) <= window));
+}
+
+// Whether a recorded curve covers the whole of the requested range
+export function curveCovers(curve: SceneScoreCurve, range: DetectionRange): boolean {
+  return curve.rangeStart <= range.start && curve.rangeEnd >= range.end;
+}
+
+// Turn detected cut points into scene ranges honouring the length limits
+export function buildSceneRanges(
+  cuts: number[],
+  rangeStart: number,
+  rangeEnd: number,
+  settings: Pick<ProcessingOptions, "minSceneLength" | "maxSceneLength">
+): SceneRange[] {
+  const { minSceneLength, maxSceneLength } = settings;
+  
+  // Drop cuts that would leave a scene shorter than the minimum, merging it into its neighbour
+  const boundaries = [rangeStart];
+  for (const cut of cuts) {
+    if (cut - boundaries[boundaries.length - 1] >= minSceneLength && rangeEnd - cut >= minSceneLength) {
+      boundaries.push(cut);
+    }
+  }
+  boundaries.push(rangeEnd);
+  
+  const scenes: SceneRange[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const startTime = boundaries[i];
+    const endTime = boundaries[i + 1];
+    
+    // Split scenes that exceed the maximum into equal parts
+    const parts = maxSceneLength ? Math.ceil((endTime - startTime) / maxSceneLength) : 1;
+    const partLength = (endTime - startTime) / parts;
+    for (let part = 0; part < parts; part++) {
+      scenes.push({
+        startTime: Math.round(startTime + part * partLength),
+        endTime: part === parts - 1 ? endTime : Math.round(startTime + (part + 1) * partLength),
+      });
+    }
+  }
+  
+  return scenes;
+}
+
+// Trim black and silent stretches off the ends of each scene, optionally dropping
+// scenes that are black or silent throughout. Scenes that would be trimmed away
+// entirely but are not dropped are kept as detected
+export function trimScenes(
+  scenes: SceneRange[],
+  dead: DeadSegments,
+  settings: Pick<ProcessingOptions, "trimBlack" | "trimSilence" | "dropEmptyScenes">
+): TrimmedScene[] {
+  const trimmable = [
+    ...(settings.trimBlack ? dead.black : []),
+    ...(settings.trimSilence ? dead.silence : []),
+  ];
+  
+  const trimmed: TrimmedScene[] = [];
+  for (const scene of scenes) {
+    const empty = (settings.trimBlack && covers(dead.black, scene)) || (settings.trimSilence && covers(dead.silence, scene));
+    if (empty && settings.dropEmptyScenes) continue;
+    
+    let { startTime, endTime } = scene;
+    
+    // Keep stepping past segments that touch the current ends, since black and silence can overlap
+    let moved = true;
+    while (moved && startTime < endTime) {
+      moved = false;
+      for (const segment of trimmable) {
+        if (segment.start <= startTime + TRIM_TOLERANCE && segment.end > startTime) {
+          startTime = segment.end;
+          moved = true;
+        }
+        if (segment.end >= endTime - TRIM_TOLERANCE && segment.start < endTime) {
+          endTime = segment.start;
+          moved = true;
+        }
+      }
+    }
+    
+    if (endTime <= startTime) {
+      ({ startTime, endTime } = scene);
+    }
+    trimmed.push({ startTime, endTime, detectedStartTime: scene.startTime, detectedEndTime: scene.endTime });
+  }
+  
+  return trimmed;
+}
+
+// Whether the segments together cover the whole scene
+function covers(segments: DetectionRange[], scene: SceneRange): boolean {
+  let reached = scene.startTime;
+  for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+    if (segment.start > reached + TRIM_TOLERANCE) break;
+    reached = Math.max(reached, segment.end);
+  }
+  return reached >= scene.endTime - TRIM_TOLERANCE;
+}
+
+// Visit the frames of a curve that fall inside the range
+function forEachFrame(
+  curve: SceneScoreCurve,
+  range: DetectionRange,
+  visit: (time: number, score: number, index: number) => void
+): void {
+  for (let i = 0; i < curve.times.length; i++) {
+    const time = curve.times[i];
+    if (time >= range.start && time < range.end) {
+      visit(time, curve.scores[i], i);
+    }
+  }
+}
+
+function average(values: number[], from: number, to: number): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    sum += values[i];
+  }
+  return sum / (to - from);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,51 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A single stream as reported by ffprobe
+export const probeStreamSchema = z.object({
+  index: z.number(),
+  type: z.enum(["video", "audio", "subtitle", "data", "attachment", "unknown"]),
+  codec: z.string(),
+  codecLongName: z.string().optional(),
+  profile: z.string().optional(),
+  bitRate: z.number().optional(), // bits per second
+  language: z.string().optional(),
+  title: z.string().optional(),
+  isDefault: z.boolean(),
+  // Video streams
+  width: z.number().optional(),
+  height: z.number().optional(),
+  frameRate: z.number().optional(), // frames per second, from r_frame_rate
+  averageFrameRate: z.number().optional(), // differs from frameRate for variable frame rate sources
+  level: z.number().optional(), // as ffprobe reports it, e.g. 41 for H.264 level 4.1
+  pixelFormat: z.string().optional(),
+  sampleAspectRatio: z.string().optional(), // e.g. "10:11" for non-square pixels
+  colorSpace: z.string().optional(),
+  colorTransfer: z.string().optional(),
+  colorPrimaries: z.string().optional(),
+  hdr: z.enum(["HDR10", "HLG", "Dolby Vision"]).optional(),
+  rotation: z.number().optional(), // degrees, from the display matrix or rotate tag
+  // Audio streams
+  channels: z.number().optional(),
+  channelLayout: z.string().optional(),
+  sampleRate: z.number().optional(), // Hz
+});
+
+// Everything ffprobe reports about an uploaded file
+export const mediaProbeSchema = z.object({
+  container: z.string(),
+  containerLongName: z.string().optional(),
+  duration: z.number().optional(), // in milliseconds
+  startTime: z.number().optional(), // in milliseconds, timestamp of the first packet
+  bitRate: z.number().optional(), // bits per second
+  creationTime: z.string().optional(),
+  tags: z.record(z.string()),
+  streams: z.array(probeStreamSchema),
+});
+
+export type ProbeStream = z.infer<typeof probeStreamSchema>;
+export type MediaProbe = z.infer<typeof mediaProbeSchema>;
+
 // Video model to store information about uploaded videos
 export const videos = pgTable("videos", {
   id: serial("id").primaryKey(),
@@ -28,9 +73,12 @@ export const videos = pgTable("videos", {
   resolution: text("resolution"),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   processingStatus: text("processing_status").notNull().default("pending"),
+  probe: json("probe").$type<MediaProbe>(),
 });
 
-export const insertVideoSchema = createInsertSchema(videos).omit({
+export const insertVideoSchema = createInsertSchema(videos, {
+  probe: mediaProbeSchema.nullable().optional(),
+}).omit({
   id: true,
   uploadedAt: true,
 });
@@ -38,6 +86,19 @@ export const insertVideoSchema = createInsertSchema(videos).omit({
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 export type Video = typeof videos.$inferSelect;
 
+// A frame considered for a clip's poster, scored for sharpness and exposure
+export const thumbnailCandidateSchema = z.object({
+  time: z.number(), // in milliseconds from the start of the source
+  score: z.number(), // higher is better; only comparable within one clip
+  hash: z.string(), // of the image file, so URLs change when the content does
+});
+
+export type ThumbnailCandidate = z.infer<typeof thumbnailCandidateSchema>;
+
+// Sizes thumbnails can be resized to, in pixels; any other size is refused
+export const THUMBNAIL_WIDTHS = [160, 320, 640, 1280] as const;
+export const THUMBNAIL_HEIGHTS = [90, 180, 360, 720] as const;
+
 // Clip model to store information about extracted clips
 export const clips = pgTable("clips", {
   id: serial("id").primaryKey(),
@@ -49,10 +110,20 @@ export const clips = pgTable("clips", {
   endTime: integer("end_time").notNull(), // in milliseconds
   duration: integer("duration").notNull(), // in milliseconds
   sceneIndex: integer("scene_index").notNull(),
+  startFrame: integer("start_frame"), // index of the first frame in the source
+  endFrame: integer("end_frame"), // index of the frame after the last, so the clip has endFrame - startFrame frames
+  frameRate: doublePrecision("frame_rate"), // source frames per second, used for timecode
+  detectedStartTime: integer("detected_start_time"), // scene boundaries before trimming, null when untrimmed
+  detectedEndTime: integer("detected_end_time"),
+  preset: text("preset"), // null when the clip was stream copied
+  thumbnailCandidates: json("thumbnail_candidates").$type<ThumbnailCandidate[]>(),
+  posterIndex: integer("poster_index"), // candidate shown as the thumbnail
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertClipSchema = createInsertSchema(clips).omit({
+export const insertClipSchema = createInsertSchema(clips, {
+  thumbnailCandidates: z.array(thumbnailCandidateSchema).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -60,6 +131,170 @@ export const insertClipSchema = createInsertSchema(clips).omit({
 export type InsertClip = z.infer<typeof insertClipSchema>;
 export type Clip = typeof clips.$inferSelect;
 
+// Defaults for the processing options left unset
+export const DEFAULT_SCENE_THRESHOLD = 0.4;
+export const DEFAULT_MIN_SCENE_LENGTH = 500; // in milliseconds
+export const DEFAULT_SILENCE_NOISE_FLOOR = -40; // in dBFS
+export const DEFAULT_SILENCE_MIN_GAP = 500; // in milliseconds
+
+// Strategies available for finding scene boundaries
+export const sceneDetectorSchema = z.enum(["content", "adaptive", "black", "histogram", "audio", "hybrid"]);
+
+export type SceneDetectorName = z.infer<typeof sceneDetectorSchema>;
+
+// How clips are cut out of the source
+export const extractionModeSchema = z.enum([
+  "reencode", // re-encode every clip, cutting on the exact frame
+  "copy", // stream copy, snapping cut points to keyframes
+  "smart", // re-encode only the partial GOPs at each end and stream copy the rest
+]);
+
+export type ExtractionMode = z.infer<typeof extractionModeSchema>;
+
+// Named output formats defined by the server
+export const encodingPresetSchema = z.enum(["h264", "h265", "vp9", "prores", "mp3", "wav", "proxy720", "proxy1080"]);
+
+export type EncodingPresetId = z.infer<typeof encodingPresetSchema>;
+
+export const encodingPresetInfoSchema = z.object({
+  id: encodingPresetSchema,
+  label: z.string(),
+  extension: z.string(),
+  mimeType: z.string(),
+  audioOnly: z.boolean(),
+});
+
+export type EncodingPresetInfo = z.infer<typeof encodingPresetInfoSchema>;
+
+// What the installed ffmpeg build can do
+export const systemCapabilitiesSchema = z.object({
+  ffmpegVersion: z.string().nullable(), // null when ffmpeg could not be run
+  ffprobeAvailable: z.boolean(),
+  encoders: z.array(z.string()),
+  filters: z.array(z.string()),
+  supportedPresets: z.array(encodingPresetSchema),
+});
+
+export type SystemCapabilities = z.infer<typeof systemCapabilitiesSchema>;
+
+// Options accepted when starting processing
+export const processingOptionsSchema = z.object({
+  detector: sceneDetectorSchema.default("content"),
+  extractionMode: extractionModeSchema.default("reencode"),
+  preset: encodingPresetSchema.default("h264"), // used when re-encoding
+  threshold: z.number().min(0.01).max(1).default(DEFAULT_SCENE_THRESHOLD),
+  silenceNoiseFloor: z.number().min(-90).max(0).default(DEFAULT_SILENCE_NOISE_FLOOR), // in dBFS, for audio detection
+  silenceMinGap: z.number().int().min(50).default(DEFAULT_SILENCE_MIN_GAP), // in milliseconds, for audio detection
+  minSceneLength: z.number().int().min(0).default(DEFAULT_MIN_SCENE_LENGTH), // in milliseconds
+  maxSceneLength: z.number().int().positive().optional(), // in milliseconds, longer scenes are split
+  startTime: z.number().int().min(0).optional(), // in milliseconds
+  endTime: z.number().int().positive().optional(), // in milliseconds
+  trimBlack: z.boolean().default(false), // trim black frames from the ends of each scene
+  trimSilence: z.boolean().default(false), // trim silence from the ends of each scene
+  dropEmptyScenes: z.boolean().default(false), // drop scenes that are black or silent throughout
+}).refine(
+  (options) => options.startTime === undefined || options.endTime === undefined || options.endTime > options.startTime,
+  { message: "End time must be after start time", path: ["endTime"] },
+).refine(
+  (options) => options.maxSceneLength === undefined || options.maxSceneLength >= options.minSceneLength,
+  { message: "Maximum scene length must not be shorter than the minimum", path: ["maxSceneLength"] },
+);
+
+export type ProcessingOptions = z.infer<typeof processingOptionsSchema>;
+
+export const detectorComparisonRequestSchema = z.object({
+  detectors: z.array(sceneDetectorSchema).min(1).default(sceneDetectorSchema.options),
+  threshold: z.number().min(0.01).max(1).default(DEFAULT_SCENE_THRESHOLD),
+  silenceNoiseFloor: z.number().min(-90).max(0).default(DEFAULT_SILENCE_NOISE_FLOOR), // in dBFS
+  silenceMinGap: z.number().int().min(50).default(DEFAULT_SILENCE_MIN_GAP), // in milliseconds
+  startTime: z.number().int().min(0).optional(), // in milliseconds
+  endTime: z.number().int().positive().optional(), // in milliseconds
+});
+
+// Where to split a clip or move the boundary after it
+export const clipEditRequestSchema = z.object({
+  time: z.number().int().min(0), // in milliseconds from the start of the source
+});
+
+// Which candidate frame to use as a clip's thumbnail
+export const posterRequestSchema = z.object({
+  index: z.number().int().min(0),
+});
+
+export const detectorComparisonSchema = z.object({
+  detector: sceneDetectorSchema,
+  cuts: z.array(z.number()), // in milliseconds
+  elapsed: z.number(), // in milliseconds
+  error: z.string().optional(),
+});
+
+export type DetectorComparison = z.infer<typeof detectorComparisonSchema>;
+
+// A comparison running in the background, its results filling in as each detector finishes
+export const detectorComparisonRunSchema = z.object({
+  id: z.string(),
+  status: z.enum(["running", "completed", "cancelled"]),
+  results: z.array(detectorComparisonSchema),
+});
+
+export type DetectorComparisonRun = z.infer<typeof detectorComparisonRunSchema>;
+
+// Clip boundaries set by hand, with where trimming had moved them from, if it had
+export const editedSceneSchema = z.object({
+  startTime: z.number().int().min(0), // in milliseconds
+  endTime: z.number().int().positive(), // in milliseconds
+  detectedStartTime: z.number().nullable(),
+  detectedEndTime: z.number().nullable(),
+});
+
+export type EditedScene = z.infer<typeof editedSceneSchema>;
+
+// Job model to track queued and running processing work
+export const jobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  status: text("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  options: json("options").$type<ProcessingOptions>(),
+  // Hand-edited clips to re-extract; null for a run that detects the scenes itself
+  scenes: json("scenes").$type<EditedScene[]>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  options: processingOptionsSchema.nullable().optional(),
+  scenes: z.array(editedSceneSchema).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+// Per-frame scene change scores recorded during detection, so cut points
+// can be recomputed for a new threshold without decoding the video again
+export const sceneScores = pgTable("scene_scores", {
+  videoId: integer("video_id").primaryKey(),
+  rangeStart: integer("range_start").notNull(), // in milliseconds
+  rangeEnd: integer("range_end").notNull(), // in milliseconds
+  times: json("times").$type<number[]>().notNull(), // frame times in milliseconds
+  scores: json("scores").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertSceneScores = typeof sceneScores.$inferInsert;
+export type SceneScores = typeof sceneScores.$inferSelect;
+export type SceneScoreCurve = Pick<SceneScores, "rangeStart" | "rangeEnd" | "times" | "scores">;
+
 // Custom Zod schemas for API requests and responses
 export const uploadVideoResponseSchema = z.object({
   id: z.number(),
@@ -77,6 +312,7 @@ export const videoInfoSchema = z.object({
   resolution: z.string().optional(),
   processingStatus: z.string(),
   sceneCount: z.number().optional(),
+  probe: mediaProbeSchema.optional(),
 });
 
 export const clipSchema = z.object({
@@ -87,8 +323,20 @@ export const clipSchema = z.object({
   endTime: z.number(),
   duration: z.number(),
   timestamp: z.string(),
+  startFrame: z.number().optional(),
+  endFrame: z.number().optional(),
+  frameRate: z.number().optional(),
+  startTimecode: z.string().optional(), // SMPTE, drop-frame for 29.97 and 59.94
+  endTimecode: z.string().optional(),
+  detectedStartTime: z.number().optional(), // set when black or silence was trimmed from the scene
+  detectedEndTime: z.number().optional(),
   url: z.string(),
+  hlsUrl: z.string(), // master playlist, unavailable until packaged; players fall back to url
   thumbnailUrl: z.string(),
+  thumbnailTrackUrl: z.string(), // WebVTT track of sprite sheet frames for scrubbing
+  posterCandidates: z.array(thumbnailCandidateSchema.extend({ url: z.string() })),
+  posterIndex: z.number().optional(),
+  mimeType: z.string().optional(),
 });
 
 export type ClipInfo = z.infer<typeof clipSchema>;
@@ -96,9 +344,13 @@ export type VideoInfo = z.infer<typeof videoInfoSchema>;
 
 export const processingStatusSchema = z.object({
   videoId: z.number().optional(),
-  status: z.enum(["pending", "processing", "completed", "error"]),
+  status: z.enum(["pending", "processing", "completed", "error", "cancelled"]),
   progress: z.number().min(0).max(100).optional(),
   stage: z.string().optional(),
+  // Estimated seconds left in the current stage
+  eta: z.number().nonnegative().optional(),
+  // Media processed per second of wall time in the current stage (x realtime)
+  speed: z.number().nonnegative().optional(),
   error: z.string().optional(),
   clips: z.array(clipSchema).optional(),
   videoInfo: videoInfoSchema.optional(),